@@ -11,6 +11,9 @@ async function main() {
       "src/webview/panels/queryWatch/index.tsx",
       "src/webview/panels/driftTimeline/index.tsx",
       "src/webview/panels/documentBrowser/index.tsx",
+      "src/webview/panels/conformance/index.tsx",
+      "src/webview/panels/fieldProfile/index.tsx",
+      "src/webview/panels/integrity/index.tsx",
     ],
     bundle: true,
     format: "esm",
@@ -114,27 +114,3 @@ export async function findConvexEnvFiles(): Promise<
 
   return results;
 }
-
-import { parseConvexSchema, ParsedSchema } from "./schemaParser";
-
-/**
- * Reads and parses the user's `convex/schema.ts` file to extract
- * basic validation rules (like which fields are optional).
- */
-export async function getParsedSchema(): Promise<ParsedSchema | null> {
-  const schemaUri = await findSchemaFile();
-  if (!schemaUri) {
-    return null;
-  }
-
-  try {
-    const contentBuffer = await vscode.workspace.fs.readFile(schemaUri);
-    const content = Buffer.from(contentBuffer).toString("utf-8");
-
-    return parseConvexSchema(content);
-  } catch (err) {
-    console.error("Failed to read convex schema:", err);
-    return null;
-  }
-}
-
@@ -11,6 +11,21 @@ export type DataClientError =
   | { kind: "convex_not_running" }
   | { kind: "query_failed"; message: string };
 
+/**
+ * IDs per `_checkRefs` call. Arguments go on the command line, which
+ * Windows caps at 32K characters.
+ */
+const CHECK_REFS_BATCH = 500;
+
+/** Largest stdout accepted from one `npx convex` call. */
+export const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+export interface DocPage {
+  page: unknown[];
+  continueCursor: string | null;
+  isDone: boolean;
+}
+
 export class ConvexDataClient {
   constructor(
     private readonly connectionManager: ConnectionManager
@@ -135,15 +150,18 @@ export class ConvexDataClient {
   }
 
   /**
-   * List documents from a table with a limit.
+   * List documents from a table with a limit, oldest first unless
+   * `order` is `"desc"`.
    */
   async listDocs(
     table: string,
-    limit: number = 50
+    limit: number = 50,
+    order: "asc" | "desc" = "asc"
   ): Promise<unknown[]> {
     const result = await this._run(".exconvex/_exconvex:_listDocs", {
       table,
       limit,
+      order,
     });
 
     if (Array.isArray(result)) {
@@ -152,6 +170,31 @@ export class ConvexDataClient {
     return [];
   }
 
+  /**
+   * Fetch one page of documents in `_creationTime` order.
+   * Pass `null` as the cursor for the first page. With a `stride`, only
+   * every stride-th document of the page is returned.
+   */
+  async pageDocs(
+    table: string,
+    cursor: string | null,
+    numItems: number,
+    stride?: number
+  ): Promise<DocPage> {
+    const result = (await this._run(".exconvex/_exconvex:_pageDocs", {
+      table,
+      cursor,
+      numItems,
+      stride,
+    })) as Partial<DocPage> | null;
+
+    return {
+      page: Array.isArray(result?.page) ? result.page : [],
+      continueCursor: result?.continueCursor ?? null,
+      isDone: result?.isDone ?? true,
+    };
+  }
+
   /**
    * Get document counts for multiple tables.
    */
@@ -188,6 +231,20 @@ export class ConvexDataClient {
     await this._run(".exconvex/_exconvex:_createDoc", { table, document });
   }
 
+  /**
+   * Remove a top-level field from a document.
+   */
+  async unsetField(table: string, id: string, field: string): Promise<void> {
+    await this._run(".exconvex/_exconvex:_unsetField", { table, id, field });
+  }
+
+  /**
+   * Delete a document.
+   */
+  async deleteDoc(table: string, id: string): Promise<void> {
+    await this._run(".exconvex/_exconvex:_deleteDoc", { table, id });
+  }
+
   /**
    * Get a single document by ID.
    */
@@ -195,6 +252,60 @@ export class ConvexDataClient {
     return await this._run(".exconvex/_exconvex:_getDoc", { table, id });
   }
 
+  /**
+   * Resolve ID-shaped strings to the table each belongs to.
+   * IDs that belong to none of `tables` are left out of the result.
+   */
+  async resolveIds(
+    ids: string[],
+    tables: string[]
+  ): Promise<Map<string, string>> {
+    const resolved = new Map<string, string>();
+    // Keep each CLI invocation's argument list reasonably small
+    for (let i = 0; i < ids.length; i += 200) {
+      const result = await this._run(".exconvex/_exconvex:_resolveIds", {
+        ids: ids.slice(i, i + 200),
+        tables,
+      });
+      if (result && typeof result === "object") {
+        for (const [id, table] of Object.entries(result as Record<string, string | null>)) {
+          if (table) {
+            resolved.set(id, table);
+          }
+        }
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Of the given IDs, return those that don't resolve to a document in
+   * `table` — deleted documents and IDs issued by other tables alike.
+   */
+  async findMissingIds(table: string, ids: string[]): Promise<Set<string>> {
+    const missing = new Set<string>();
+    for (let i = 0; i < ids.length; i += CHECK_REFS_BATCH) {
+      const result = await this._run(".exconvex/_exconvex:_checkRefs", {
+        table,
+        ids: ids.slice(i, i + CHECK_REFS_BATCH),
+      });
+      if (Array.isArray(result)) {
+        for (const id of result) {
+          missing.add(String(id));
+        }
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * List the deployment's tables via `npx convex data`. Convex functions
+   * can't enumerate tables, so this reads the CLI's output.
+   */
+  async listTables(): Promise<string[]> {
+    return parseTableList(await this._runCli(["data"]));
+  }
+
   /**
    * Run a convex function via CLI and parse the JSON result.
    */
@@ -202,6 +313,24 @@ export class ConvexDataClient {
     functionPath: string,
     args: Record<string, unknown>
   ): Promise<unknown> {
+    const stdout = await this._runCli([
+      "run",
+      functionPath,
+      JSON.stringify(args),
+    ]);
+
+    try {
+      return JSON.parse(stdout);
+    } catch {
+      return stdout;
+    }
+  }
+
+  /**
+   * Run a `npx convex` subcommand against the active deployment and
+   * return its trimmed stdout.
+   */
+  private async _runCli(args: string[]): Promise<string> {
     const deployment = this.connectionManager.activeDeployment;
     if (!deployment) {
       throw new Error("No deployment connected");
@@ -213,18 +342,13 @@ export class ConvexDataClient {
     }
 
     const npxPath = process.platform === "win32" ? "npx.cmd" : "npx";
-    const cliArgs = [
-      "convex",
-      "run",
-      functionPath,
-      JSON.stringify(args),
-    ];
+    const cliArgs = ["convex", ...args];
 
     if (deployment.url) {
       cliArgs.push("--url", deployment.url);
     }
 
-    return new Promise<unknown>((resolve, reject) => {
+    return new Promise<string>((resolve, reject) => {
       execFile(
         npxPath,
         cliArgs,
@@ -232,7 +356,7 @@ export class ConvexDataClient {
           cwd: convexDir,
           timeout: 30000,
           env: { ...process.env, FORCE_COLOR: "0" },
-          maxBuffer: 10 * 1024 * 1024,
+          maxBuffer: MAX_OUTPUT_BYTES,
         },
         (error, stdout, stderr) => {
           if (error) {
@@ -240,13 +364,7 @@ export class ConvexDataClient {
             reject(new Error(msg));
             return;
           }
-
-          try {
-            const parsed = JSON.parse(stdout.trim());
-            resolve(parsed);
-          } catch {
-            resolve(stdout.trim());
-          }
+          resolve(stdout.trim());
         }
       );
     });
@@ -264,3 +382,20 @@ export class ConvexDataClient {
     terminal.sendText("npx convex dev");
   }
 }
+
+/**
+ * Table names from `npx convex data` output: one per line, nothing when
+ * there are none. Anything else, such as a changed CLI format, is rejected
+ * rather than guessed at.
+ */
+export function parseTableList(output: string): string[] {
+  const lines = output
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const unexpected = lines.find((line) => !/^[A-Za-z][A-Za-z0-9_]*$/.test(line));
+  if (unexpected !== undefined) {
+    throw new Error(`Unrecognized output from npx convex data: "${unexpected}"`);
+  }
+  return lines;
+}
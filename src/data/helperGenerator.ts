@@ -9,14 +9,38 @@ const HELPER_CONTENT = `/* eslint-disable */
 // This file provides data browsing queries for the ExConvex VS Code extension.
 // Safe to delete if you uninstall the extension.
 
-import { query } from "./_generated/server";
+import { query, internalQuery, internalMutation } from "./_generated/server";
 import { v } from "convex/values";
 
+// Paging, reference checks and deletes are internal: npx convex run can
+// call them, but clients holding the deployment URL can't.
+
 export const _listDocs = query({
-  args: { table: v.string(), limit: v.optional(v.number()) },
-  handler: async (ctx, { table, limit }) => {
+  args: {
+    table: v.string(),
+    limit: v.optional(v.number()),
+    order: v.optional(v.union(v.literal("asc"), v.literal("desc"))),
+  },
+  handler: async (ctx, { table, limit, order }) => {
     const take = limit ?? 50;
-    return await (ctx.db as any).query(table).take(take);
+    return await (ctx.db as any).query(table).order(order ?? "asc").take(take);
+  },
+});
+
+export const _pageDocs = internalQuery({
+  args: {
+    table: v.string(),
+    cursor: v.union(v.string(), v.null()),
+    numItems: v.number(),
+    stride: v.optional(v.number()),
+  },
+  handler: async (ctx, { table, cursor, numItems, stride }) => {
+    const result = await (ctx.db as any).query(table).paginate({ cursor, numItems });
+    if (!stride || stride <= 1) {
+      return result;
+    }
+    // Only send back every stride-th document of the page
+    return { ...result, page: result.page.filter((_: unknown, i: number) => i % stride === 0) };
   },
 });
 
@@ -49,6 +73,33 @@ export const _tableCounts = query({
   },
 });
 
+export const _resolveIds = internalQuery({
+  args: { ids: v.array(v.string()), tables: v.array(v.string()) },
+  handler: async (ctx, { ids, tables }) => {
+    // normalizeId only accepts an ID for the table it was issued by
+    const resolved: Record<string, string | null> = {};
+    for (const id of ids) {
+      resolved[id] = tables.find((table) => (ctx.db as any).normalizeId(table, id) !== null) ?? null;
+    }
+    return resolved;
+  },
+});
+
+export const _checkRefs = internalQuery({
+  args: { table: v.string(), ids: v.array(v.string()) },
+  handler: async (ctx, { table, ids }) => {
+    // An ID issued by another table can't point into this one either
+    const missing: string[] = [];
+    for (const id of ids) {
+      const normalizedId = (ctx.db as any).normalizeId(table, id);
+      if (!normalizedId || (await (ctx.db as any).get(normalizedId)) === null) {
+        missing.push(id);
+      }
+    }
+    return missing;
+  },
+});
+
 import { mutation } from "./_generated/server";
 
 export const _updateDoc = mutation({
@@ -78,6 +129,31 @@ export const _createDoc = mutation({
     return { id };
   }
 });
+
+export const _unsetField = internalMutation({
+  args: { table: v.string(), id: v.string(), field: v.string() },
+  handler: async (ctx, { table, id, field }) => {
+    const normalizedId = (ctx.db as any).normalizeId(table, id);
+    if (!normalizedId) {
+      throw new Error(\`Invalid ID "\${id}" for table "\${table}"\`);
+    }
+    // Patching a field to undefined removes it from the document
+    await (ctx.db as any).patch(normalizedId, { [field]: undefined });
+    return { success: true };
+  },
+});
+
+export const _deleteDoc = internalMutation({
+  args: { table: v.string(), id: v.string() },
+  handler: async (ctx, { table, id }) => {
+    const normalizedId = (ctx.db as any).normalizeId(table, id);
+    if (!normalizedId) {
+      throw new Error(\`Invalid ID "\${id}" for table "\${table}"\`);
+    }
+    await (ctx.db as any).delete(normalizedId);
+    return { success: true };
+  },
+});
 `;
 
 /**
@@ -102,7 +178,7 @@ export async function ensureHelperFile(): Promise<vscode.Uri | null> {
     const existing = Buffer.from(
       await vscode.workspace.fs.readFile(helperUri)
     ).toString("utf-8");
-    if (!existing.includes("_listDocs") || !existing.includes("_tableCounts") || !existing.includes("normalizeId") || !existing.includes("_createDoc")) {
+    if (!existing.includes("_listDocs") || !existing.includes("_tableCounts") || !existing.includes("normalizeId") || !existing.includes("_createDoc") || !existing.includes("_resolveIds") || !existing.includes("_pageDocs") || !existing.includes("_checkRefs") || !existing.includes("_deleteDoc") || !existing.includes("stride") || !existing.includes("internalMutation")) {
       await writeHelper(helperDirUri, helperUri);
     }
   } catch {
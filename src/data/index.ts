@@ -1,2 +1,7 @@
 export { ConvexDataClient } from "./convexClient";
 export { ensureHelperFile, removeHelperFile } from "./helperGenerator";
+export {
+  sampleDocs,
+  getSamplingStrategy,
+  type SamplingStrategy,
+} from "./sampling";
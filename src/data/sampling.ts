@@ -0,0 +1,157 @@
+import * as vscode from "vscode";
+import { MAX_OUTPUT_BYTES, type ConvexDataClient } from "./convexClient";
+
+export type SamplingStrategy = "oldest" | "newest" | "evenlySpaced" | "fullScan";
+
+/** Page size before any document has been seen. */
+const FIRST_PAGE_SIZE = 500;
+
+/** Most documents one `_pageDocs` call reads, within Convex's per-query limits. */
+const MAX_PAGE_SIZE = 8000;
+
+/**
+ * Bytes one `_pageDocs` call may read, including documents a stride skips.
+ * Half of Convex's 8 MiB per-query limit, as JSON size only approximates
+ * stored size.
+ */
+const MAX_READ_BYTES = 4 * 1024 * 1024;
+
+/** Share of the CLI output buffer a page may fill; the CLI pretty-prints. */
+const PAGE_OUTPUT_BYTES = MAX_OUTPUT_BYTES / 4;
+
+/** `_tableCounts` stops counting here, so larger counts are lower bounds. */
+const COUNT_CAP = 10000;
+
+export interface SampleOptions {
+  /** Defaults to `exconvex.samplingStrategy`. */
+  strategy?: SamplingStrategy;
+  /** Called before each page with the number of documents collected so far. */
+  onProgress?: (sampled: number) => void;
+  /** Stops paging; the documents read so far are returned. */
+  token?: vscode.CancellationToken;
+}
+
+export function getSamplingStrategy(): SamplingStrategy {
+  return vscode.workspace
+    .getConfiguration("exconvex")
+    .get<SamplingStrategy>("samplingStrategy", "oldest");
+}
+
+/**
+ * Sample documents from a table:
+ *
+ * - `oldest` — the first `limit` documents by `_creationTime`.
+ * - `newest` — the last `limit` documents by `_creationTime`.
+ * - `evenlySpaced` — `limit` documents spread across the table, paging
+ *   with cursors and keeping every k-th document. `_tableCounts` stops at
+ *   10,000, so on larger tables the spread covers the first 10,000.
+ * - `fullScan` — every document, ignoring `limit`, behind a cancellable
+ *   progress notification. Cancelling keeps what was read so far.
+ *
+ * Pages are as large as the CLI's output buffer and Convex's per-query
+ * read limit allow, judged from the size of the documents read so far.
+ */
+export async function sampleDocs(
+  client: ConvexDataClient,
+  table: string,
+  limit: number,
+  options: SampleOptions = {}
+): Promise<Record<string, unknown>[]> {
+  switch (options.strategy ?? getSamplingStrategy()) {
+    case "newest":
+      return (await client.listDocs(table, limit, "desc")) as Record<string, unknown>[];
+    case "evenlySpaced":
+      return sampleEvenly(client, table, limit, options);
+    case "fullScan":
+      return scanTable(client, table, options);
+    default:
+      return (await client.listDocs(table, limit)) as Record<string, unknown>[];
+  }
+}
+
+async function sampleEvenly(
+  client: ConvexDataClient,
+  table: string,
+  limit: number,
+  { onProgress, token }: SampleOptions
+): Promise<Record<string, unknown>[]> {
+  const count = (await client.getTableCounts([table]))[table] ?? 0;
+  if (count <= limit) {
+    return (await client.listDocs(table, limit)) as Record<string, unknown>[];
+  }
+
+  const stride = Math.ceil(count / limit);
+  const docs: Record<string, unknown>[] = [];
+  let bytes = 0;
+  let cursor: string | null = null;
+  while (docs.length < limit && !token?.isCancellationRequested) {
+    onProgress?.(docs.length);
+    const numItems = nextPageSize(docs.length > 0 ? bytes / docs.length : undefined, stride);
+    const result = await client.pageDocs(table, cursor, numItems, stride);
+    const page = result.page as Record<string, unknown>[];
+    docs.push(...page);
+    bytes += JSON.stringify(page).length;
+    if (result.isDone) {break;}
+    cursor = result.continueCursor;
+  }
+  return docs.slice(0, limit);
+}
+
+async function scanTable(
+  client: ConvexDataClient,
+  table: string,
+  { onProgress, token: outerToken }: SampleOptions
+): Promise<Record<string, unknown>[]> {
+  const count = (await client.getTableCounts([table]))[table] ?? 0;
+
+  return vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Scanning ${table}`,
+      cancellable: true,
+    },
+    async (progress, token) => {
+      const docs: Record<string, unknown>[] = [];
+      let bytes = 0;
+      let cursor: string | null = null;
+      while (!token.isCancellationRequested && !outerToken?.isCancellationRequested) {
+        onProgress?.(docs.length);
+        const numItems = nextPageSize(docs.length > 0 ? bytes / docs.length : undefined);
+        const result = await client.pageDocs(table, cursor, numItems);
+        const page = result.page as Record<string, unknown>[];
+        docs.push(...page);
+        bytes += JSON.stringify(page).length;
+        progress.report({
+          message: `${docs.length} documents`,
+          // Past the count cap the total is unknown
+          increment:
+            count > 0 && count < COUNT_CAP
+              ? (page.length / count) * 100
+              : undefined,
+        });
+        if (result.isDone) {break;}
+        cursor = result.continueCursor;
+      }
+      return docs;
+    }
+  );
+}
+
+/**
+ * Documents to request per page, given their average size so far, so the
+ * returned ones fit the CLI output budget and all of them fit the query's
+ * read budget. With a `stride`, only every stride-th document read is
+ * returned, and pages stay whole strides. When a single stride is too
+ * large to read, pages shrink below it and the samples bunch closer.
+ */
+export function nextPageSize(bytesPerDoc: number | undefined, stride = 1): number {
+  const readable = bytesPerDoc
+    ? Math.min(MAX_PAGE_SIZE, Math.floor(MAX_READ_BYTES / bytesPerDoc))
+    : FIRST_PAGE_SIZE;
+  if (readable < stride) {return Math.max(1, readable);}
+
+  const returned = bytesPerDoc
+    ? Math.max(1, Math.floor(PAGE_OUTPUT_BYTES / bytesPerDoc))
+    : FIRST_PAGE_SIZE;
+  return Math.min(returned, Math.floor(readable / stride)) * stride;
+}
@@ -1,16 +1,24 @@
 import * as vscode from "vscode";
 import type { SchemaSnapshot } from "../shared/types";
+import { formatCommit } from "../git";
 
-class SnapshotItem extends vscode.TreeItem {
+export class SnapshotItem extends vscode.TreeItem {
   constructor(public readonly snapshot: SchemaSnapshot) {
-    super(
-      new Date(snapshot.createdAt).toLocaleString(),
-      vscode.TreeItemCollapsibleState.None
-    );
-    this.description = `${snapshot.tables.length} tables`;
-    this.iconPath = new vscode.ThemeIcon("history");
-    this.contextValue = "snapshot";
-    this.tooltip = `ID: ${snapshot.id}\nDeployment: ${snapshot.deploymentId}\nTables: ${snapshot.tables.length}\nRelations: ${snapshot.relations.length}`;
+    const createdAt = new Date(snapshot.createdAt).toLocaleString();
+    super(snapshot.label ?? createdAt, vscode.TreeItemCollapsibleState.None);
+    this.description = [
+      snapshot.label ? createdAt : undefined,
+      snapshot.git ? formatCommit(snapshot.git) : undefined,
+      `${snapshot.tables.length} tables`,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    this.iconPath = new vscode.ThemeIcon(snapshot.pinned ? "pinned" : "history");
+    this.contextValue = snapshot.pinned ? "pinnedSnapshot" : "snapshot";
+    const commit = snapshot.git
+      ? `\nCommit: ${snapshot.git.sha}${snapshot.git.subject ? ` — ${snapshot.git.subject}` : ""}\nBranch: ${snapshot.git.branch ?? "(detached)"}${snapshot.git.dirty ? " with uncommitted changes" : ""}`
+      : "";
+    this.tooltip = `ID: ${snapshot.id}\nDeployment: ${snapshot.deploymentId}\nCreated: ${createdAt}${commit}\nTables: ${snapshot.tables.length}\nRelations: ${snapshot.relations.length}${snapshot.pinned ? "\nPinned" : ""}`;
   }
 }
 
@@ -35,6 +43,19 @@ export class DriftProvider implements vscode.TreeDataProvider<SnapshotItem> {
     this.refresh();
   }
 
+  updateSnapshot(snapshot: SchemaSnapshot): void {
+    this._snapshots = this._snapshots.map((s) =>
+      s.id === snapshot.id ? snapshot : s
+    );
+    this.refresh();
+  }
+
+  removeSnapshots(snapshotIds: string[]): void {
+    if (snapshotIds.length === 0) {return;}
+    this._snapshots = this._snapshots.filter((s) => !snapshotIds.includes(s.id));
+    this.refresh();
+  }
+
   getSnapshots(): SchemaSnapshot[] {
     return this._snapshots;
   }
@@ -1,4 +1,4 @@
 export { DeploymentsProvider } from "./deploymentsProvider";
-export { TablesProvider } from "./tablesProvider";
+export { TablesProvider, TableItem, FieldItem } from "./tablesProvider";
 export { IndexesProvider } from "./indexesProvider";
-export { DriftProvider } from "./driftProvider";
+export { DriftProvider, SnapshotItem } from "./driftProvider";
@@ -1,6 +1,6 @@
 import * as vscode from "vscode";
 import type { ConnectionManager } from "../connection/connectionManager";
-import type { IndexDefinition } from "../shared/types";
+import type { IndexDefinition, SourceLocation } from "../shared/types";
 
 class IndexTreeItem extends vscode.TreeItem {
   constructor(
@@ -24,6 +24,8 @@ class TableGroupItem extends vscode.TreeItem {
 }
 
 class IndexLeafItem extends vscode.TreeItem {
+  public readonly location?: SourceLocation;
+
   constructor(index: IndexDefinition) {
     super(index.name, vscode.TreeItemCollapsibleState.None);
     this.description = `[${index.fields.join(", ")}]`;
@@ -36,6 +38,7 @@ class IndexLeafItem extends vscode.TreeItem {
     );
     this.tooltip = `Type: ${index.type}\nFields: ${index.fields.join(", ")}`;
     this.contextValue = "indexLeaf";
+    this.location = index.location;
   }
 }
 
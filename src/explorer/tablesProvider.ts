@@ -1,20 +1,41 @@
 import * as vscode from "vscode";
 import type { ConnectionManager } from "../connection/connectionManager";
-import type { TableSchema, FieldStat, IndexDefinition } from "../shared/types";
+import type {
+  TableSchema,
+  FieldStat,
+  IndexDefinition,
+  SourceLocation,
+} from "../shared/types";
+import { getParentFieldPath } from "../schema/fieldPaths";
 
 type TableTreeItem = TableItem | FieldItem | IndexGroupItem | IndexItem;
 
 export class TableItem extends vscode.TreeItem {
+  public readonly location?: SourceLocation;
+
   constructor(
     public readonly schema: TableSchema,
     public readonly indexes: IndexDefinition[],
     docCount?: number
   ) {
     super(schema.table, vscode.TreeItemCollapsibleState.Collapsed);
-    this.iconPath = new vscode.ThemeIcon("table");
-    const countLabel = docCount !== undefined ? `${docCount} docs` : `${schema.fields.length} fields`;
-    this.description = countLabel;
+    this.iconPath = new vscode.ThemeIcon(schema.origin?.library ? "package" : "table");
+    const topLevelFields = schema.fields.filter(
+      (f) => getParentFieldPath(f.path) === undefined
+    );
+    const countLabel = docCount !== undefined ? `${docCount} docs` : `${topLevelFields.length} fields`;
+    this.description = schema.origin
+      ? `${countLabel} — ${schema.origin.module ?? schema.origin.exportName}`
+      : countLabel;
+    if (schema.origin) {
+      this.tooltip = `Spread from ${schema.origin.exportName}${schema.origin.module ? ` (${schema.origin.module})` : ""}`;
+    }
+    if (schema.source === "inferred") {
+      this.description = `${countLabel} — inferred`;
+      this.tooltip = `Inferred from ${schema.sampledDocs} sampled documents (no schema.ts)`;
+    }
     this.contextValue = "table";
+    this.location = schema.location;
     // Click to browse table data
     this.command = {
       command: "exconvex.browseTable",
@@ -25,12 +46,40 @@ export class TableItem extends vscode.TreeItem {
 }
 
 export class FieldItem extends vscode.TreeItem {
-  constructor(field: FieldStat) {
-    super(field.path, vscode.TreeItemCollapsibleState.None);
+  /** Nested fields (`address.street`, `tags[]`) shown under this one. */
+  public readonly children: FieldStat[];
+  public readonly location?: SourceLocation;
+
+  constructor(
+    public readonly tableName: string,
+    public readonly field: FieldStat,
+    public readonly tableFields: FieldStat[]
+  ) {
+    const children = tableFields.filter(
+      (f) => getParentFieldPath(f.path) === field.path
+    );
+    super(
+      field.path,
+      children.length > 0
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None
+    );
+    this.children = children;
     this.description = `${field.types.join(" | ")}${field.optionalRate > 0 ? "?" : ""}`;
-    this.iconPath = new vscode.ThemeIcon("symbol-field");
+    if (!field.validator) {
+      // Inferred from data — say how sure we are
+      this.description += ` · ${(field.confidence * 100).toFixed(0)}% confidence`;
+    }
+    this.iconPath = new vscode.ThemeIcon(
+      children.length > 0 ? "symbol-object" : "symbol-field"
+    );
     this.contextValue = "field";
+    this.location = field.location;
     this.tooltip = `Types: ${field.types.join(", ")}\nOptional rate: ${(field.optionalRate * 100).toFixed(0)}%\nSampled: ${field.sampleCount}\nConfidence: ${(field.confidence * 100).toFixed(0)}%`;
+    if (field.arrayLength) {
+      const { min, max, mean } = field.arrayLength;
+      this.tooltip += `\nArray length: ${min}–${max} (mean ${mean.toFixed(1)})`;
+    }
   }
 }
 
@@ -47,6 +96,8 @@ export class IndexGroupItem extends vscode.TreeItem {
 }
 
 export class IndexItem extends vscode.TreeItem {
+  public readonly location?: SourceLocation;
+
   constructor(index: IndexDefinition) {
     super(index.name, vscode.TreeItemCollapsibleState.None);
     this.description = `${index.type} — [${index.fields.join(", ")}]`;
@@ -58,6 +109,7 @@ export class IndexItem extends vscode.TreeItem {
           : "key"
     );
     this.contextValue = "index";
+    this.location = index.location;
   }
 }
 
@@ -114,9 +166,10 @@ export class TablesProvider implements vscode.TreeDataProvider<TableTreeItem> {
     }
 
     if (element instanceof TableItem) {
-      const children: TableTreeItem[] = element.schema.fields.map(
-        (f) => new FieldItem(f)
-      );
+      const fields = element.schema.fields;
+      const children: TableTreeItem[] = fields
+        .filter((f) => getParentFieldPath(f.path) === undefined)
+        .map((f) => new FieldItem(element.schema.table, f, fields));
       if (element.indexes.length > 0) {
         children.push(
           new IndexGroupItem(element.schema.table, element.indexes)
@@ -125,6 +178,12 @@ export class TablesProvider implements vscode.TreeDataProvider<TableTreeItem> {
       return children;
     }
 
+    if (element instanceof FieldItem) {
+      return element.children.map(
+        (f) => new FieldItem(element.tableName, f, element.tableFields)
+      );
+    }
+
     if (element instanceof IndexGroupItem) {
       return element.indexes.map((idx) => new IndexItem(idx));
     }
@@ -5,21 +5,63 @@ import {
   TablesProvider,
   IndexesProvider,
   DriftProvider,
+  type FieldItem,
+  type TableItem,
+  type SnapshotItem,
 } from "./explorer";
-import { parseConvexSchema, SnapshotStore, computeDrift } from "./schema";
+import {
+  parseConvexSchema,
+  SnapshotStore,
+  SchemaWatcher,
+  SchemaDiagnostics,
+  computeDrift,
+  buildDriftTimeline,
+  classifyDrift,
+  generateMigrationModule,
+  migrationModuleName,
+  checkConformance,
+  profileField,
+  generateDefineTable,
+  collectIdCandidates,
+  insertTableDefinition,
+  RelationOverrideStore,
+  applyRelationOverrides,
+  inferSchemaFromDeployment,
+  isTopLevelField,
+  scanRelationIntegrity,
+  type LiveInferenceResult,
+  type SchemaParseResult,
+} from "./schema";
 import { analyzeIndexCoverage } from "./index-inspector";
 import { QueryWatcher } from "./watch";
+import {
+  GitHeadWatcher,
+  formatCommit,
+  getGitInfo,
+  getRepoRoot,
+  listRefs,
+  parseSchemaAtRevision,
+} from "./git";
 import { SchemaGraphPanel } from "./webview/SchemaGraphPanel";
 import { IndexInspectorPanel } from "./webview/IndexInspectorPanel";
 import { QueryWatchPanel } from "./webview/QueryWatchPanel";
 import { DriftTimelinePanel } from "./webview/DriftTimelinePanel";
 import { DocumentBrowserPanel } from "./webview/DocumentBrowserPanel";
-import { ConvexDataClient, ensureHelperFile } from "./data";
+import { ConformancePanel } from "./webview/ConformancePanel";
+import { FieldProfilePanel } from "./webview/FieldProfilePanel";
+import { IntegrityPanel } from "./webview/IntegrityPanel";
+import { ConvexDataClient, ensureHelperFile, sampleDocs } from "./data";
 import type {
   SchemaGraphDto,
   TableSchema,
   IndexDefinition,
   RelationEdge,
+  SourceLocation,
+  TableConformance,
+  RelationIntegrity,
+  OrphanFixDto,
+  SchemaSnapshot,
+  SchemaDriftDto,
 } from "./shared/types";
 
 export async function activate(
@@ -32,6 +74,10 @@ export async function activate(
   const snapshotStore = new SnapshotStore(context.globalStorageUri);
   const queryWatcher = new QueryWatcher(connectionManager);
   const dataClient = new ConvexDataClient(connectionManager);
+  const schemaWatcher = new SchemaWatcher();
+  const schemaDiagnostics = new SchemaDiagnostics();
+  const relationOverrideStore = new RelationOverrideStore();
+  const gitHeadWatcher = new GitHeadWatcher();
 
   await snapshotStore.initialize();
 
@@ -61,24 +107,76 @@ export async function activate(
   let queryWatchPanel: QueryWatchPanel | undefined;
   let driftTimelinePanel: DriftTimelinePanel | undefined;
   let documentBrowserPanel: DocumentBrowserPanel | undefined;
+  let conformancePanel: ConformancePanel | undefined;
+  let fieldProfilePanel: FieldProfilePanel | undefined;
+  let integrityPanel: IntegrityPanel | undefined;
 
   // --- Shared state ---
   let cachedTables: TableSchema[] = [];
   let cachedIndexes: IndexDefinition[] = [];
   let cachedRelations: RelationEdge[] = [];
+  // Relations as parsed or inferred, before manual overrides are applied
+  let parsedRelations: RelationEdge[] = [];
+  let cachedSchemaFile: string | undefined;
+
+  let refreshSequence = 0;
+  // Sampling for the running refresh; a newer refresh or a disconnect stops it
+  let inferenceCancellation: vscode.CancellationTokenSource | undefined;
+
+  function cancelInference(): void {
+    inferenceCancellation?.cancel();
+    inferenceCancellation?.dispose();
+    inferenceCancellation = undefined;
+  }
 
   // --- Helper: refresh schema data ---
-  async function refreshSchemaData(): Promise<void> {
+  async function refreshSchemaData(loadCounts = true): Promise<void> {
+    const sequence = ++refreshSequence;
+    cancelInference();
     const result = await parseConvexSchema();
-    cachedTables = result.tables;
-    cachedIndexes = result.indexes;
-    cachedRelations = result.relations;
+
+    // Schemaless project — describe the tables from sampled data instead
+    let inferred: LiveInferenceResult | undefined;
+    if (!result.schemaFile && connectionManager.isConnected && sequence === refreshSequence) {
+      inferenceCancellation = new vscode.CancellationTokenSource();
+      inferred = await inferLiveSchema(inferenceCancellation.token);
+    }
+    const overrides = await relationOverrideStore.load();
+    // A newer refresh started while parsing — let it win
+    if (sequence !== refreshSequence) {return;}
+
+    cachedTables = inferred?.tables ?? result.tables;
+    cachedIndexes = inferred?.indexes ?? result.indexes;
+    parsedRelations = inferred?.relations ?? result.relations;
+    cachedRelations = applyRelationOverrides(parsedRelations, overrides);
+    cachedSchemaFile = result.schemaFile;
+    schemaWatcher.watch(result.sourceFiles);
+    void gitHeadWatcher.watch(gitCwd());
+    await updateDiagnostics(result);
 
     tablesProvider.setData(cachedTables, cachedIndexes);
     indexesProvider.setData(cachedIndexes);
+    documentBrowserPanel?.updateSchema(cachedTables);
 
     // Try to load live doc counts in the background
-    loadDocCounts();
+    if (loadCounts) {
+      loadDocCounts();
+    }
+  }
+
+  async function inferLiveSchema(
+    token: vscode.CancellationToken
+  ): Promise<LiveInferenceResult | undefined> {
+    if (await dataClient.checkReadiness()) {return undefined;}
+    const limit = vscode.workspace
+      .getConfiguration("exconvex")
+      .get<number>("sampleLimit", 100);
+    try {
+      return await inferSchemaFromDeployment(dataClient, limit, token);
+    } catch (err) {
+      console.log("[ExConvex] Could not infer schema from data:", err);
+      return undefined;
+    }
   }
 
   async function loadDocCounts(): Promise<void> {
@@ -98,8 +196,11 @@ export async function activate(
       nodes: cachedTables.map((t) => ({
         id: t.table,
         table: t.table,
-        fields: t.fields,
+        fields: t.fields.filter((f) => isTopLevelField(f.path)),
         indexCount: cachedIndexes.filter((i) => i.table === t.table).length,
+        origin: t.origin,
+        location: t.location,
+        source: t.source,
       })),
       edges: cachedRelations.map((r, i) => ({
         id: `edge-${i}`,
@@ -108,10 +209,128 @@ export async function activate(
         sourceField: r.fromFieldPath,
         confidence: r.confidence,
         label: r.fromFieldPath,
+        origin: r.source,
       })),
     };
   }
 
+  // --- Helper: diagnostics only, for when no deployment is connected ---
+  async function refreshDiagnostics(): Promise<void> {
+    const sequence = ++refreshSequence;
+    const result = await parseConvexSchema();
+    if (sequence !== refreshSequence) {return;}
+
+    schemaWatcher.watch(result.sourceFiles);
+    await updateDiagnostics(result);
+  }
+
+  async function updateDiagnostics(result: SchemaParseResult): Promise<void> {
+    if (result.schemaFile) {
+      await schemaDiagnostics.update(result);
+    } else {
+      schemaDiagnostics.clear();
+    }
+  }
+
+  // Re-parse as the schema (or any file it imports) changes
+  schemaWatcher.onDidChange(async ({ saved }) => {
+    if (!connectionManager.isConnected) {
+      await refreshDiagnostics();
+      return;
+    }
+    await refreshSchemaData(false);
+    schemaGraphPanel?.updateGraph(buildGraphDto());
+    // Unsaved edits are parsed for the views, but never snapshotted
+    if (saved) {
+      await autoSnapshot();
+    }
+  });
+
+  // A checkout or commit may bring a different schema with it
+  gitHeadWatcher.onDidChange(async () => {
+    if (!connectionManager.isConnected) {return;}
+    await refreshSchemaData(false);
+    schemaGraphPanel?.updateGraph(buildGraphDto());
+    await autoSnapshot();
+  });
+
+  /** Where to ask git about HEAD: the schema's folder, else the workspace. */
+  function gitCwd(): string {
+    if (cachedSchemaFile) {
+      return vscode.Uri.joinPath(vscode.Uri.file(cachedSchemaFile), "..").fsPath;
+    }
+    return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? process.cwd();
+  }
+
+  async function takeSnapshot(): Promise<SchemaSnapshot> {
+    const deployment = connectionManager.activeDeployment!;
+    const snapshot = snapshotStore.createSnapshot(
+      deployment.id,
+      cachedTables,
+      cachedRelations,
+      cachedIndexes,
+      await getGitInfo(gitCwd())
+    );
+    await snapshotStore.save(snapshot);
+    driftProvider.addSnapshot(snapshot);
+    await pruneSnapshots(deployment.id);
+    return snapshot;
+  }
+
+  let autoSnapshotQueue = Promise.resolve();
+
+  /**
+   * With `exconvex.autoSnapshot` on, snapshot the schema whenever it
+   * differs from the latest snapshot, so each drift is tied to a commit.
+   * Runs one at a time: a checkout fires both watchers. Skipped while
+   * schema sources have unsaved edits, which the commit doesn't describe.
+   */
+  function autoSnapshot(): Promise<void> {
+    autoSnapshotQueue = autoSnapshotQueue.then(snapshotIfChanged, snapshotIfChanged);
+    return autoSnapshotQueue;
+  }
+
+  async function snapshotIfChanged(): Promise<void> {
+    const enabled = vscode.workspace
+      .getConfiguration("exconvex")
+      .get<boolean>("autoSnapshot", false);
+    const deployment = connectionManager.activeDeployment;
+    if (!enabled || !deployment || cachedTables.length === 0) {
+      return;
+    }
+    const convexDir = cachedSchemaFile
+      ? vscode.Uri.joinPath(vscode.Uri.file(cachedSchemaFile), "..").fsPath
+      : undefined;
+    if (schemaWatcher.hasUnsavedChanges(convexDir)) {return;}
+
+    const [latest] = await snapshotStore.list(deployment.id);
+    if (latest) {
+      const current = snapshotStore.createSnapshot(
+        deployment.id,
+        cachedTables,
+        cachedRelations,
+        cachedIndexes
+      );
+      const drift = computeDrift(latest, current);
+      const changes =
+        drift.tableDiffs.length + drift.indexDiffs.length + drift.relationDiffs.length;
+      if (changes === 0) {return;}
+    }
+    await takeSnapshot();
+  }
+
+  // Schema diagnostics don't need a deployment
+  void refreshDiagnostics();
+
+  // Manual relation edits from the graph apply on top of every refresh
+  relationOverrideStore.onDidChange(async () => {
+    cachedRelations = applyRelationOverrides(
+      parsedRelations,
+      await relationOverrideStore.load()
+    );
+    schemaGraphPanel?.updateGraph(buildGraphDto());
+  });
+
   // --- Commands ---
 
   // Connect
@@ -119,6 +338,8 @@ export async function activate(
     vscode.commands.registerCommand("exconvex.connect", async () => {
       const deployment = await connectionManager.connect();
       if (deployment) {
+        // Connecting again switches deployments; show the new one's history
+        await loadSnapshots(deployment.id);
         await refreshSchemaData();
       }
     })
@@ -127,12 +348,16 @@ export async function activate(
   // Disconnect
   context.subscriptions.push(
     vscode.commands.registerCommand("exconvex.disconnectDeployment", () => {
+      cancelInference();
       connectionManager.disconnect();
       cachedTables = [];
       cachedIndexes = [];
       cachedRelations = [];
+      parsedRelations = [];
+      cachedSchemaFile = undefined;
       tablesProvider.setData([], []);
       indexesProvider.setData([]);
+      driftProvider.setSnapshots([]);
     })
   );
 
@@ -165,15 +390,7 @@ export async function activate(
 
       await refreshSchemaData();
 
-      // Save a snapshot
-      const deployment = connectionManager.activeDeployment!;
-      const snapshot = snapshotStore.createSnapshot(
-        deployment.id,
-        cachedTables,
-        cachedRelations
-      );
-      await snapshotStore.save(snapshot);
-      driftProvider.addSnapshot(snapshot);
+      await takeSnapshot();
 
       // Update schema graph if open
       if (schemaGraphPanel) {
@@ -204,6 +421,14 @@ export async function activate(
           await refreshSchemaData();
           schemaGraphPanel!.updateGraph(buildGraphDto());
         });
+        schemaGraphPanel.onRelationOverride(async (override) => {
+          try {
+            await relationOverrideStore.set(override);
+          } catch (err) {
+            const msg = err instanceof Error ? err.message : String(err);
+            vscode.window.showErrorMessage(`Failed to save relation override: ${msg}`);
+          }
+        });
         context.subscriptions.push(schemaGraphPanel);
       }
 
@@ -291,6 +516,78 @@ export async function activate(
     })
   );
 
+  /** Show the deployment's snapshots in the drift view, after pruning. */
+  async function loadSnapshots(deploymentId: string): Promise<void> {
+    await pruneSnapshots(deploymentId);
+    driftProvider.setSnapshots(await snapshotStore.list(deploymentId));
+  }
+
+  async function pruneSnapshots(deploymentId: string): Promise<void> {
+    const keep = vscode.workspace
+      .getConfiguration("exconvex")
+      .get<number>("snapshotRetention", 50);
+    const deleted = await snapshotStore.applyRetention(deploymentId, keep);
+    driftProvider.removeSnapshots(deleted);
+  }
+
+  // Snapshot management from the Drift Timeline context menu
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "exconvex.renameSnapshot",
+      async (item?: SnapshotItem) => {
+        if (!item) {return;}
+        const label = await vscode.window.showInputBox({
+          prompt: "Snapshot name (leave empty to show the timestamp)",
+          value: item.snapshot.label ?? "",
+        });
+        if (label === undefined) {return;}
+        const updated = await snapshotStore.update(item.snapshot.id, {
+          label: label.trim() || undefined,
+        });
+        if (updated) {
+          driftProvider.updateSnapshot(updated);
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      "exconvex.pinSnapshot",
+      async (item?: SnapshotItem) => {
+        if (!item) {return;}
+        const updated = await snapshotStore.update(item.snapshot.id, { pinned: true });
+        if (updated) {
+          driftProvider.updateSnapshot(updated);
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      "exconvex.unpinSnapshot",
+      async (item?: SnapshotItem) => {
+        if (!item) {return;}
+        const updated = await snapshotStore.update(item.snapshot.id, { pinned: false });
+        if (updated) {
+          driftProvider.updateSnapshot(updated);
+          // It may have only been kept because it was pinned
+          await pruneSnapshots(updated.deploymentId);
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      "exconvex.deleteSnapshot",
+      async (item?: SnapshotItem) => {
+        if (!item) {return;}
+        const name = item.snapshot.label ?? new Date(item.snapshot.createdAt).toLocaleString();
+        const choice = await vscode.window.showWarningMessage(
+          `Delete snapshot "${name}"?`,
+          { modal: true, detail: item.snapshot.pinned ? "This snapshot is pinned." : undefined },
+          "Delete"
+        );
+        if (choice !== "Delete") {return;}
+        await snapshotStore.delete(item.snapshot.id);
+        driftProvider.removeSnapshots([item.snapshot.id]);
+      }
+    )
+  );
+
   // Compare Schema Snapshots
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -308,8 +605,8 @@ export async function activate(
 
         // Pick two snapshots to compare
         const items = snapshots.map((s) => ({
-          label: new Date(s.createdAt).toLocaleString(),
-          description: `${s.tables.length} tables, ${s.relations.length} relations`,
+          label: `${s.pinned ? "$(pinned) " : ""}${s.label ?? new Date(s.createdAt).toLocaleString()}`,
+          description: `${s.label ? `${new Date(s.createdAt).toLocaleString()} · ` : ""}${s.git ? `${formatCommit(s.git)} · ` : ""}${s.tables.length} tables, ${s.relations.length} relations`,
           snapshot: s,
         }));
 
@@ -328,20 +625,232 @@ export async function activate(
 
         const drift = computeDrift(fromPick.snapshot, toPick.snapshot);
 
-        if (!driftTimelinePanel) {
-          driftTimelinePanel = new DriftTimelinePanel(context.extensionUri);
-          driftTimelinePanel.onRefreshRequest(async () => {
-            await vscode.commands.executeCommand("exconvex.compareSnapshots");
-          });
-          context.subscriptions.push(driftTimelinePanel);
+        lastGitCompareRef = undefined;
+        await showDrift(drift, toPick.snapshot.tables);
+      }
+    )
+  );
+
+  // Drift Timeline across every snapshot of the deployment
+  context.subscriptions.push(
+    vscode.commands.registerCommand("exconvex.showDriftTimeline", async () => {
+      const deploymentId = connectionManager.activeDeployment?.id;
+      const snapshots = await snapshotStore.list(deploymentId);
+
+      if (snapshots.length < 2) {
+        vscode.window.showWarningMessage(
+          "Need at least 2 snapshots for a timeline. Use 'Refresh Schema Snapshot' to create snapshots."
+        );
+        return;
+      }
+
+      driftCheckSequence++;
+      const panel = getDriftTimelinePanel();
+      panel.show(vscode.ViewColumn.One);
+      panel.updateTimeline(buildDriftTimeline(snapshots));
+    })
+  );
+
+  // Compare the working-tree schema with the schema at a git revision.
+  // Works without a deployment: both sides come from source.
+  let lastGitCompareRef: string | undefined;
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "exconvex.compareWithGitRevision",
+      async (ref?: string) => {
+        const schemaFile = cachedSchemaFile ?? (await parseConvexSchema()).schemaFile;
+        if (!schemaFile) {
+          vscode.window.showWarningMessage("No convex/schema.ts found in the workspace.");
+          return;
+        }
+        const repoRoot = await getRepoRoot(
+          vscode.Uri.joinPath(vscode.Uri.file(schemaFile), "..").fsPath
+        );
+        if (!repoRoot) {
+          vscode.window.showWarningMessage("The schema file is not in a git repository.");
+          return;
         }
 
-        driftTimelinePanel.show(vscode.ViewColumn.One);
-        driftTimelinePanel.updateDrift(drift);
+        ref ??= await pickGitRef(repoRoot);
+        if (!ref) {return;}
+        const revision = ref;
+
+        try {
+          const [before, after] = await vscode.window.withProgress(
+            {
+              location: vscode.ProgressLocation.Notification,
+              title: `Reading schema at ${revision}...`,
+            },
+            () =>
+              Promise.all([
+                parseSchemaAtRevision(repoRoot, revision, schemaFile),
+                parseConvexSchema(),
+              ])
+          );
+          if (!before.schemaFile) {
+            vscode.window.showWarningMessage(`No schema file found at ${revision}.`);
+            return;
+          }
+
+          const deploymentId = connectionManager.activeDeployment?.id ?? "local";
+          const from = snapshotStore.createSnapshot(
+            deploymentId,
+            before.tables,
+            before.relations,
+            before.indexes
+          );
+          const to = snapshotStore.createSnapshot(
+            deploymentId,
+            after.tables,
+            after.relations,
+            after.indexes
+          );
+          const drift = {
+            ...computeDrift(from, to),
+            fromLabel: revision,
+            toLabel: "Working tree",
+          };
+
+          lastGitCompareRef = revision;
+          await showDrift(drift, after.tables);
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          vscode.window.showErrorMessage(`Failed to compare with ${revision}: ${msg}`);
+        }
       }
     )
   );
 
+  let driftCheckSequence = 0;
+
+  /**
+   * Show a pairwise drift, then add each change's risk once it has been
+   * checked against the connected deployment's data.
+   */
+  async function showDrift(drift: SchemaDriftDto, toTables: TableSchema[]): Promise<void> {
+    const sequence = ++driftCheckSequence;
+    const panel = getDriftTimelinePanel();
+    panel.show(vscode.ViewColumn.One);
+    panel.updateDrift(drift);
+    if (!connectionManager.isConnected || drift.tableDiffs.length === 0) {return;}
+
+    const limit = vscode.workspace
+      .getConfiguration("exconvex")
+      .get<number>("sampleLimit", 100);
+    try {
+      const classified = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Window,
+          title: "Checking drift against live data",
+        },
+        (progress) =>
+          classifyDrift(dataClient, drift, toTables, limit, (table) =>
+            progress.report({ message: table })
+          )
+      );
+      // A newer comparison replaced this one while sampling
+      if (sequence !== driftCheckSequence) {return;}
+      panel.updateDrift(classified);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      vscode.window.showWarningMessage(`Could not check drift against live data: ${msg}`);
+    }
+  }
+
+  async function pickGitRef(repoRoot: string): Promise<string | undefined> {
+    const enterRef = "$(edit) Enter a ref...";
+    const refs = await listRefs(repoRoot).catch(() => []);
+    const pick = await vscode.window.showQuickPick(
+      [
+        { label: enterRef, ref: undefined as string | undefined },
+        ...refs.map((r) => ({
+          label: `${r.kind === "commit" ? "$(git-commit)" : r.kind === "tag" ? "$(tag)" : "$(git-branch)"} ${r.ref}`,
+          description: r.subject,
+          ref: r.ref as string | undefined,
+        })),
+      ],
+      { placeHolder: "Compare the working tree with...", matchOnDescription: true }
+    );
+    if (!pick) {return undefined;}
+    if (pick.ref) {return pick.ref;}
+    const typed = await vscode.window.showInputBox({
+      prompt: "Branch, tag or commit to compare with",
+      placeHolder: "e.g. main, HEAD~3, v1.2.0",
+    });
+    return typed?.trim() || undefined;
+  }
+
+  function getDriftTimelinePanel(): DriftTimelinePanel {
+    if (!driftTimelinePanel) {
+      const panel = new DriftTimelinePanel(context.extensionUri);
+      panel.onRefreshRequest(async () => {
+        if (panel.showsTimeline) {
+          await vscode.commands.executeCommand("exconvex.showDriftTimeline");
+        } else if (lastGitCompareRef) {
+          await vscode.commands.executeCommand(
+            "exconvex.compareWithGitRevision",
+            lastGitCompareRef
+          );
+        } else {
+          await vscode.commands.executeCommand("exconvex.compareSnapshots");
+        }
+      });
+      panel.onGenerateMigration((drift) => generateMigration(drift));
+      context.subscriptions.push(panel);
+      driftTimelinePanel = panel;
+    }
+    return driftTimelinePanel;
+  }
+
+  /**
+   * Write a migration scaffold for a drift's field changes to
+   * `convex/migrations/` and open it.
+   */
+  async function generateMigration(drift: SchemaDriftDto): Promise<void> {
+    const schemaFile = cachedSchemaFile ?? (await parseConvexSchema()).schemaFile;
+    if (!schemaFile) {
+      vscode.window.showWarningMessage("No convex/schema.ts found in the workspace.");
+      return;
+    }
+
+    // Never overwrite an earlier migration generated in the same second
+    const dirUri = vscode.Uri.joinPath(vscode.Uri.file(schemaFile), "..", "migrations");
+    const baseName = migrationModuleName(new Date());
+    let name = baseName;
+    for (let n = 2; await fileExists(vscode.Uri.joinPath(dirUri, `${name}.ts`)); n++) {
+      name = `${baseName}_${n}`;
+    }
+
+    const content = generateMigrationModule(drift, `migrations/${name}`);
+    if (!content) {
+      vscode.window.showInformationMessage(
+        "No type changes, removed, renamed or newly required fields to migrate."
+      );
+      return;
+    }
+
+    const fileUri = vscode.Uri.joinPath(dirUri, `${name}.ts`);
+    try {
+      await vscode.workspace.fs.createDirectory(dirUri);
+      await vscode.workspace.fs.writeFile(fileUri, Buffer.from(content, "utf-8"));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Failed to write migration: ${msg}`);
+      return;
+    }
+    await vscode.window.showTextDocument(fileUri);
+  }
+
+  async function fileExists(uri: vscode.Uri): Promise<boolean> {
+    try {
+      await vscode.workspace.fs.stat(uri);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   // Export Current View
   context.subscriptions.push(
     vscode.commands.registerCommand("exconvex.exportView", async () => {
@@ -389,7 +898,7 @@ export async function activate(
   context.subscriptions.push(
     vscode.commands.registerCommand(
       "exconvex.browseTable",
-      async (tableName?: string, docCount?: number) => {
+      async (tableName?: string, docCount?: number, focusId?: string) => {
         // Pre-flight: check if data browsing is possible
         const readinessError = await dataClient.checkReadiness();
         if (readinessError) {
@@ -411,7 +920,7 @@ export async function activate(
           }
           const items = cachedTables.map((t) => ({
             label: t.table,
-            description: `${t.fields.length} fields`,
+            description: `${t.fields.filter((f) => isTopLevelField(f.path)).length} fields`,
           }));
           const picked = await vscode.window.showQuickPick(items, {
             placeHolder: "Select a table to browse",
@@ -428,11 +937,382 @@ export async function activate(
           context.subscriptions.push(documentBrowserPanel);
         }
 
-        // Get field order from the parsed schema
+        // Field order and validators come from the parsed schema
         const tableSchema = cachedTables.find((t) => t.table === tableName);
-        const fieldOrder = tableSchema?.fields.map((f) => f.path);
 
-        await documentBrowserPanel.openTable(tableName, docCount, fieldOrder);
+        await documentBrowserPanel.openTable(
+          tableName,
+          docCount,
+          tableSchema,
+          focusId
+        );
+      }
+    )
+  );
+
+  // Check Data Against Schema
+  context.subscriptions.push(
+    vscode.commands.registerCommand("exconvex.checkConformance", async () => {
+      if (!connectionManager.isConnected) {
+        vscode.window.showWarningMessage("Connect to a deployment first.");
+        return;
+      }
+
+      const readinessError = await dataClient.checkReadiness();
+      if (readinessError) {
+        await dataClient.fix(readinessError);
+        return;
+      }
+
+      if (cachedTables.length === 0) {
+        await refreshSchemaData();
+      }
+
+      if (!conformancePanel) {
+        conformancePanel = new ConformancePanel(context.extensionUri);
+        conformancePanel.onRefreshRequest(() => runConformanceCheck());
+        conformancePanel.onOpenDocument(({ table, id }) =>
+          vscode.commands.executeCommand("exconvex.browseTable", table, undefined, id)
+        );
+        context.subscriptions.push(conformancePanel);
+      }
+
+      conformancePanel.show(vscode.ViewColumn.One);
+      await runConformanceCheck();
+    })
+  );
+
+  async function runConformanceCheck(): Promise<void> {
+    if (!conformancePanel) {return;}
+    const limit = vscode.workspace
+      .getConfiguration("exconvex")
+      .get<number>("sampleLimit", 100);
+    const declaredTables = cachedTables.filter((t) =>
+      t.fields.some((f) => f.validator)
+    );
+
+    const tables: TableConformance[] = [];
+    try {
+      for (const table of declaredTables) {
+        conformancePanel.postMessage({
+          type: "loading",
+          payload: { message: `Sampling ${table.table}...` },
+        });
+        const docs = await sampleDocs(dataClient, table.table, limit);
+        tables.push(checkConformance(table, docs));
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      conformancePanel.postMessage({
+        type: "error",
+        payload: { message: `Conformance check failed: ${message}` },
+      });
+      return;
+    }
+
+    conformancePanel.updateReport({ tables, checkedAt: Date.now() });
+  }
+
+  // Scan for Dangling References
+  context.subscriptions.push(
+    vscode.commands.registerCommand("exconvex.checkIntegrity", async () => {
+      const readinessError = await dataClient.checkReadiness();
+      if (readinessError) {
+        await dataClient.fix(readinessError);
+        return;
+      }
+
+      if (cachedTables.length === 0) {
+        await refreshSchemaData();
+      }
+
+      if (!integrityPanel) {
+        integrityPanel = new IntegrityPanel(context.extensionUri);
+        integrityPanel.onRefreshRequest(() => runIntegrityScan());
+        integrityPanel.onOpenDocument(({ table, id }) =>
+          vscode.commands.executeCommand("exconvex.browseTable", table, undefined, id)
+        );
+        integrityPanel.onFixOrphan((fix) => fixOrphan(fix));
+        context.subscriptions.push(integrityPanel);
+      }
+
+      integrityPanel.show(vscode.ViewColumn.One);
+      await runIntegrityScan();
+    })
+  );
+
+  async function runIntegrityScan(): Promise<void> {
+    if (!integrityPanel) {return;}
+    const config = vscode.workspace.getConfiguration("exconvex");
+    const limit = config.get<number>("integrityScanLimit", 10000);
+
+    const relations: RelationIntegrity[] = [];
+    try {
+      for (const relation of cachedRelations) {
+        const label = `${relation.fromTable}.${relation.fromFieldPath}`;
+        relations.push(
+          await scanRelationIntegrity(dataClient, relation, limit, (scanned) =>
+            integrityPanel?.postMessage({
+              type: "loading",
+              payload: { message: `Scanning ${label} (${scanned} documents)...` },
+            })
+          )
+        );
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      integrityPanel.postMessage({
+        type: "error",
+        payload: { message: `Integrity scan failed: ${message}` },
+      });
+      return;
+    }
+
+    integrityPanel.updateReport({
+      relations,
+      checkedAt: Date.now(),
+      readOnly: config.get<boolean>("readOnly", true),
+    });
+  }
+
+  async function fixOrphan(fix: OrphanFixDto): Promise<void> {
+    if (vscode.workspace.getConfiguration("exconvex").get<boolean>("readOnly", true)) {
+      const action = await vscode.window.showWarningMessage(
+        "ExConvex is in read-only mode. Disable \"exconvex.readOnly\" to modify documents.",
+        "Open Settings"
+      );
+      if (action === "Open Settings") {
+        await vscode.commands.executeCommand(
+          "workbench.action.openSettings",
+          "exconvex.readOnly"
+        );
+      }
+      return;
+    }
+
+    const prompt =
+      fix.action === "delete"
+        ? `Delete document ${fix.id} from "${fix.table}"?`
+        : `Remove "${fix.field}" from document ${fix.id} in "${fix.table}"?`;
+    const confirm = fix.action === "delete" ? "Delete" : "Clear Field";
+    const choice = await vscode.window.showWarningMessage(
+      prompt,
+      { modal: true },
+      confirm
+    );
+    if (choice !== confirm) {return;}
+
+    try {
+      if (fix.action === "delete") {
+        await dataClient.deleteDoc(fix.table, fix.id);
+      } else {
+        await dataClient.unsetField(fix.table, fix.id, fix.field);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Fix failed: ${message}`);
+      return;
+    }
+    integrityPanel?.resolveOrphan(fix);
+  }
+
+  // Profile a field's values from paginated samples
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "exconvex.profileField",
+      async (item?: FieldItem) => {
+        const readinessError = await dataClient.checkReadiness();
+        if (readinessError) {
+          await dataClient.fix(readinessError);
+          return;
+        }
+
+        let tableName = item?.tableName;
+        let fieldPath = item?.field.path;
+        if (!tableName || !fieldPath) {
+          if (cachedTables.length === 0) {
+            await refreshSchemaData();
+          }
+          const picked = await vscode.window.showQuickPick(
+            cachedTables.flatMap((t) =>
+              t.fields.map((f) => ({
+                label: `${t.table}.${f.path}`,
+                description: f.types.join(" | "),
+                table: t.table,
+                path: f.path,
+              }))
+            ),
+            { placeHolder: "Select a field to profile" }
+          );
+          if (!picked) {return;}
+          tableName = picked.table;
+          fieldPath = picked.path;
+        }
+
+        if (!fieldProfilePanel) {
+          fieldProfilePanel = new FieldProfilePanel(context.extensionUri);
+          fieldProfilePanel.onRefreshRequest(() => {
+            const current = fieldProfilePanel?.currentProfile;
+            if (current) {
+              void runFieldProfile(current.table, current.path);
+            }
+          });
+          context.subscriptions.push(fieldProfilePanel);
+        }
+
+        fieldProfilePanel.show(vscode.ViewColumn.One);
+        await runFieldProfile(tableName, fieldPath);
+      }
+    )
+  );
+
+  async function runFieldProfile(table: string, path: string): Promise<void> {
+    if (!fieldProfilePanel) {return;}
+    const limit = vscode.workspace
+      .getConfiguration("exconvex")
+      .get<number>("profileSampleLimit", 1000);
+
+    let docs: Record<string, unknown>[];
+    try {
+      docs = await sampleDocs(dataClient, table, limit, {
+        onProgress: (sampled) =>
+          fieldProfilePanel?.postMessage({
+            type: "loading",
+            payload: { message: `Sampling ${table} (${sampled} documents)...` },
+          }),
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      fieldProfilePanel.postMessage({
+        type: "error",
+        payload: { message: `Failed to sample "${table}": ${message}` },
+      });
+      return;
+    }
+
+    fieldProfilePanel.updateProfile(profileField(table, path, docs));
+  }
+
+  // Generate defineTable from Data
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "exconvex.generateDefineTable",
+      async (item?: TableItem) => {
+        const readinessError = await dataClient.checkReadiness();
+        if (readinessError) {
+          await dataClient.fix(readinessError);
+          return;
+        }
+        if (cachedTables.length === 0) {
+          await refreshSchemaData();
+        }
+
+        let tableName = item?.schema.table;
+        if (!tableName) {
+          const picked = await vscode.window.showQuickPick(
+            cachedTables.map((t) => ({
+              label: t.table,
+              description: describeDeclaration(t),
+            })),
+            { placeHolder: "Select a table to generate a definition for" }
+          );
+          if (!picked) {return;}
+          tableName = picked.label;
+        }
+
+        const limit = vscode.workspace
+          .getConfiguration("exconvex")
+          .get<number>("sampleLimit", 100);
+        let code: string;
+        try {
+          code = await vscode.window.withProgress(
+            {
+              location: vscode.ProgressLocation.Notification,
+              title: `Sampling ${tableName}...`,
+            },
+            async () => {
+              const docs = await sampleDocs(dataClient, tableName!, limit);
+              const candidates = collectIdCandidates(docs);
+              const resolvedIds =
+                candidates.length > 0
+                  ? await dataClient.resolveIds(
+                    candidates,
+                    cachedTables.map((t) => t.table)
+                  )
+                  : new Map<string, string>();
+              return generateDefineTable(docs, resolvedIds);
+            }
+          );
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          vscode.window.showErrorMessage(`Failed to sample "${tableName}": ${message}`);
+          return;
+        }
+
+        const schemaFile = cachedSchemaFile;
+        const action = await vscode.window.showQuickPick(
+          [
+            ...(schemaFile ? ["Insert into schema.ts"] : []),
+            "Open in New Editor",
+            "Copy to Clipboard",
+          ],
+          { placeHolder: `defineTable for "${tableName}" is ready` }
+        );
+
+        if (action === "Insert into schema.ts" && schemaFile) {
+          const inserted = await insertTableDefinition(
+            schemaFile,
+            tableName,
+            code,
+            cachedTables
+          );
+          if (inserted) {return;}
+          vscode.window.showWarningMessage(
+            "Couldn't find where to insert the table in schema.ts; opening it in a new editor instead."
+          );
+        }
+        if (action === "Copy to Clipboard") {
+          await vscode.env.clipboard.writeText(`${tableName}: ${code},`);
+          vscode.window.showInformationMessage(`Copied defineTable for "${tableName}".`);
+          return;
+        }
+        if (action) {
+          const doc = await vscode.workspace.openTextDocument({
+            content: `${tableName}: ${code},\n`,
+            language: "typescript",
+          });
+          await vscode.window.showTextDocument(doc);
+        }
+      }
+    )
+  );
+
+  function describeDeclaration(table: TableSchema): string {
+    if (table.source === "inferred" || !table.fields.some((f) => f.validator)) {
+      return "no declared schema";
+    }
+    if (table.fields.some((f) => f.validator?.kind === "any")) {
+      return "loose (v.any)";
+    }
+    return "declared";
+  }
+
+  // Reveal a table, field or index definition in the schema source
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "exconvex.revealInSchema",
+      async (item?: { location?: SourceLocation }) => {
+        const location = item?.location;
+        if (!location) {
+          vscode.window.showInformationMessage(
+            "No source location is known for this item."
+          );
+          return;
+        }
+        const position = new vscode.Position(location.line, location.column);
+        await vscode.window.showTextDocument(vscode.Uri.file(location.file), {
+          selection: new vscode.Range(position, position),
+        });
       }
     )
   );
@@ -457,13 +1337,19 @@ export async function activate(
     // Load existing snapshots
     const deploymentId = connectionManager.activeDeployment?.id;
     if (deploymentId) {
-      const snapshots = await snapshotStore.list(deploymentId);
-      driftProvider.setSnapshots(snapshots);
+      await loadSnapshots(deploymentId);
     }
   }
 
   // --- Register disposables ---
-  context.subscriptions.push(connectionManager, queryWatcher);
+  context.subscriptions.push(
+    connectionManager,
+    queryWatcher,
+    schemaWatcher,
+    schemaDiagnostics,
+    relationOverrideStore,
+    gitHeadWatcher
+  );
 
   vscode.window.showInformationMessage("ExConvex extension activated");
   console.log("ExConvex extension activated");
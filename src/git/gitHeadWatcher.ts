@@ -0,0 +1,61 @@
+import * as vscode from "vscode";
+import { runGit } from "./gitInfo";
+
+/**
+ * Fires a debounced event whenever HEAD moves in the repository containing
+ * a given directory: checkouts, commits, resets and pulls all rewrite
+ * `.git/HEAD` or the current branch ref.
+ */
+export class GitHeadWatcher implements vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private _watcher: vscode.FileSystemWatcher | undefined;
+  private _gitDir: string | undefined;
+  private _timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private readonly _debounceMs: number = 1000) {}
+
+  /**
+   * Watch the repository containing `cwd`. Outside a repository nothing
+   * is watched.
+   */
+  async watch(cwd: string): Promise<void> {
+    let gitDir: string | undefined;
+    try {
+      gitDir = await runGit(["rev-parse", "--absolute-git-dir"], cwd);
+    } catch {
+      gitDir = undefined;
+    }
+    if (gitDir === this._gitDir) {return;}
+
+    this._watcher?.dispose();
+    this._watcher = undefined;
+    this._gitDir = gitDir;
+    if (!gitDir) {return;}
+
+    this._watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(gitDir), "{HEAD,refs/heads/**}")
+    );
+    this._watcher.onDidChange(() => this._schedule());
+    this._watcher.onDidCreate(() => this._schedule());
+  }
+
+  private _schedule(): void {
+    if (this._timer) {
+      clearTimeout(this._timer);
+    }
+    this._timer = setTimeout(() => {
+      this._timer = undefined;
+      this._onDidChange.fire();
+    }, this._debounceMs);
+  }
+
+  dispose(): void {
+    if (this._timer) {
+      clearTimeout(this._timer);
+    }
+    this._watcher?.dispose();
+    this._onDidChange.dispose();
+  }
+}
@@ -0,0 +1,54 @@
+import { execFile } from "child_process";
+import type { GitCommitInfo } from "../shared/types";
+
+/**
+ * Run a git command in `cwd` and return its trimmed stdout.
+ */
+export function runGit(args: string[], cwd: string): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    execFile(
+      "git",
+      args,
+      { cwd, timeout: 10000, maxBuffer: 10 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(stderr?.trim() || error.message));
+          return;
+        }
+        resolve(stdout.trim());
+      }
+    );
+  });
+}
+
+/**
+ * HEAD commit, branch and dirty state of the repository containing `cwd`.
+ * Undefined outside a git repository or before the first commit.
+ */
+export async function getGitInfo(cwd: string): Promise<GitCommitInfo | undefined> {
+  try {
+    const [sha, branch, status, subject] = await Promise.all([
+      runGit(["rev-parse", "HEAD"], cwd),
+      runGit(["rev-parse", "--abbrev-ref", "HEAD"], cwd),
+      runGit(["status", "--porcelain"], cwd),
+      runGit(["log", "-1", "--format=%s"], cwd),
+    ]);
+    return {
+      sha,
+      branch: branch === "HEAD" ? undefined : branch,
+      dirty: status.length > 0,
+      subject,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Short form of a commit for labels: `a1b2c3d (main*)`, where `*` marks
+ * uncommitted changes.
+ */
+export function formatCommit(git: GitCommitInfo): string {
+  const ref = git.branch ?? "detached";
+  return `${git.sha.slice(0, 7)} (${ref}${git.dirty ? "*" : ""})`;
+}
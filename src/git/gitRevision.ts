@@ -0,0 +1,154 @@
+import { execFile } from "child_process";
+import * as path from "path";
+import { runGit } from "./gitInfo";
+import { parseSchemaFromSources } from "../schema/schemaParser";
+import type { SchemaParseResult } from "../schema/schemaParser";
+
+export interface GitRef {
+  ref: string;
+  kind: "branch" | "remote" | "tag" | "commit";
+  subject?: string;
+}
+
+/** Top-level directory of the repository containing `cwd`, if any. */
+export async function getRepoRoot(cwd: string): Promise<string | undefined> {
+  try {
+    return await runGit(["rev-parse", "--show-toplevel"], cwd);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Branches and tags by most recent commit, followed by recent commits,
+ * for picking a revision to compare against.
+ */
+export async function listRefs(repoRoot: string, commitLimit = 20): Promise<GitRef[]> {
+  const [refs, commits] = await Promise.all([
+    runGit(
+      [
+        "for-each-ref",
+        "--sort=-committerdate",
+        "--format=%(refname)%09%(refname:short)%09%(subject)",
+        "refs/heads",
+        "refs/remotes",
+        "refs/tags",
+      ],
+      repoRoot
+    ),
+    runGit(["log", `-${commitLimit}`, "--format=%h%x09%s"], repoRoot),
+  ]);
+
+  const result: GitRef[] = [];
+  for (const line of refs.split("\n").filter(Boolean)) {
+    const [full, ref, subject] = line.split("\t");
+    // Skip symbolic refs such as origin/HEAD
+    if (full.endsWith("/HEAD")) {continue;}
+    const kind = full.startsWith("refs/heads/")
+      ? "branch"
+      : full.startsWith("refs/tags/")
+        ? "tag"
+        : "remote";
+    result.push({ ref, kind, subject });
+  }
+  for (const line of commits.split("\n").filter(Boolean)) {
+    const [ref, subject] = line.split("\t");
+    result.push({ ref, kind: "commit", subject });
+  }
+  return result;
+}
+
+/**
+ * Parse the schema as of `ref`. All files tracked under the schema's
+ * directory at that revision are read in one `git cat-file --batch` and
+ * loaded first, so imports of files that have since been deleted still
+ * resolve. Other files the parser asks for, such as tsconfig.json or
+ * imports from outside the directory, are read with `git show`.
+ */
+export async function parseSchemaAtRevision(
+  repoRoot: string,
+  ref: string,
+  schemaFile: string
+): Promise<SchemaParseResult> {
+  const toRepoPath = (filePath: string) =>
+    path.relative(repoRoot, filePath).split(path.sep).join("/");
+
+  // -z keeps non-ASCII paths unquoted; a schema at the repository root
+  // has no directory to narrow the listing to
+  const convexDir = toRepoPath(path.dirname(schemaFile));
+  const tracked = await runGit(
+    ["ls-tree", "-r", "-z", "--name-only", ref, ...(convexDir ? ["--", convexDir] : [])],
+    repoRoot
+  );
+  const sources = await readFilesAtRevision(
+    repoRoot,
+    ref,
+    tracked
+      .split("\0")
+      .filter((f) => /\.[cm]?[jt]sx?$/.test(f) && !/(^|\/)_generated\//.test(f))
+  );
+
+  return parseSchemaFromSources(
+    schemaFile,
+    async (filePath) => {
+      const repoPath = toRepoPath(filePath);
+      // Outside the repository, e.g. an installed package
+      if (repoPath.startsWith("..")) {return undefined;}
+      if (sources.has(repoPath)) {return sources.get(repoPath);}
+      try {
+        return await runGit(["show", `${ref}:${repoPath}`], repoRoot);
+      } catch {
+        return undefined;
+      }
+    },
+    [...sources.keys()].map((f) => path.join(repoRoot, f))
+  );
+}
+
+/**
+ * Contents of `repoPaths` at `ref`, keyed by path. Paths that don't exist
+ * at that revision or aren't files are left out.
+ */
+export function readFilesAtRevision(
+  repoRoot: string,
+  ref: string,
+  repoPaths: string[]
+): Promise<Map<string, string>> {
+  if (repoPaths.length === 0) {return Promise.resolve(new Map());}
+
+  return new Promise<Map<string, string>>((resolve, reject) => {
+    const child = execFile(
+      "git",
+      ["cat-file", "--batch"],
+      { cwd: repoRoot, timeout: 10000, maxBuffer: 50 * 1024 * 1024, encoding: "buffer" },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(stderr?.toString().trim() || error.message));
+          return;
+        }
+
+        // Each object is "<sha> <type> <size>\n<content>\n", or
+        // "<name> missing\n" when the path doesn't exist
+        const files = new Map<string, string>();
+        let offset = 0;
+        for (const repoPath of repoPaths) {
+          const headerEnd = stdout.indexOf(0x0a, offset);
+          if (headerEnd < 0) {break;}
+          const header = stdout.toString("utf8", offset, headerEnd);
+          offset = headerEnd + 1;
+          if (header.endsWith(" missing")) {continue;}
+
+          const [, type, size] = header.split(" ");
+
+          const length = Number(size);
+          if (type === "blob") {
+            files.set(repoPath, stdout.toString("utf8", offset, offset + length));
+          }
+          offset += length + 1;
+        }
+        resolve(files);
+      }
+    );
+    child.stdin?.end(repoPaths.map((p) => `${ref}:${p}\n`).join(""));
+  });
+}
@@ -0,0 +1,8 @@
+export { runGit, getGitInfo, formatCommit } from "./gitInfo";
+export { GitHeadWatcher } from "./gitHeadWatcher";
+export {
+  getRepoRoot,
+  listRefs,
+  parseSchemaAtRevision,
+  type GitRef,
+} from "./gitRevision";
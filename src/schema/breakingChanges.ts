@@ -0,0 +1,169 @@
+import type { ConvexDataClient } from "../data/convexClient";
+import { sampleDocs } from "../data/sampling";
+import type {
+  ChangeRisk,
+  ConformanceIssue,
+  FieldDiff,
+  SchemaDriftDto,
+  TableDiff,
+  TableSchema,
+} from "../shared/types";
+import { checkConformance } from "./conformance";
+
+const RISK_ORDER: ChangeRisk[] = ["safe", "needs_migration", "will_fail_push"];
+
+type Assessment = Required<Pick<FieldDiff, "risk" | "riskReason">>;
+
+/**
+ * Classify every table and field change of a drift against the connected
+ * deployment. `toTables` is the schema the drift leads to; each changed
+ * table is sampled and checked against it, and removed tables are counted.
+ */
+export async function classifyDrift(
+  client: ConvexDataClient,
+  drift: SchemaDriftDto,
+  toTables: TableSchema[],
+  sampleLimit: number,
+  onProgress?: (table: string) => void
+): Promise<SchemaDriftDto> {
+  const schemas = new Map(toTables.map((t) => [t.table, t]));
+  const removed = drift.tableDiffs
+    .filter((d) => d.change === "removed")
+    .map((d) => d.table);
+  const counts = removed.length > 0 ? await client.getTableCounts(removed) : {};
+
+  const tableDiffs: TableDiff[] = [];
+  for (const diff of drift.tableDiffs) {
+    onProgress?.(diff.table);
+    if (diff.change === "removed") {
+      tableDiffs.push(classifyTableDiff(diff, undefined, [], counts[diff.table] ?? 0));
+    } else {
+      const docs = await sampleDocs(client, diff.table, sampleLimit);
+      tableDiffs.push(classifyTableDiff(diff, schemas.get(diff.table), docs));
+    }
+  }
+
+  return { ...drift, tableDiffs, riskCheckedAt: Date.now() };
+}
+
+/**
+ * Classify one table's changes given sampled documents and the table's
+ * new definition:
+ *
+ * - Fields made required, retyped or narrowed fail the push when sampled
+ *   values don't fit, as do removed fields that documents still set.
+ * - Renamed fields whose old name still holds values need a migration,
+ *   unless documents lack the new name and it is required.
+ * - Removed tables that still hold documents need a migration; their
+ *   data stays behind unvalidated.
+ *
+ * Everything else is safe. The table takes its worst field's risk.
+ */
+export function classifyTableDiff(
+  diff: TableDiff,
+  schema: TableSchema | undefined,
+  docs: Record<string, unknown>[],
+  documentCount: number = docs.length
+): TableDiff {
+  if (diff.change === "removed") {
+    return {
+      ...diff,
+      ...(documentCount > 0
+        ? assess(
+          "needs_migration",
+          `${documentCount} documents remain in a table the schema no longer declares`
+        )
+        : assess("safe", "Table is empty")),
+    };
+  }
+
+  const declared = schema?.fields.some((f) => f.validator) ?? false;
+  const issues = declared ? checkConformance(schema!, docs).issues : [];
+  const fieldDiffs = diff.fieldDiffs.map((fd) => ({
+    ...fd,
+    ...(docs.length === 0
+      ? assess("safe", "Table is empty")
+      : !declared
+        ? assess("safe", "No validators declared, so pushes don't check this data")
+        : classifyFieldDiff(fd, issues, docs.length)),
+  }));
+
+  const worst = fieldDiffs.reduce<FieldDiff | undefined>(
+    (acc, fd) =>
+      !acc || RISK_ORDER.indexOf(fd.risk) > RISK_ORDER.indexOf(acc.risk!) ? fd : acc,
+    undefined
+  );
+  return {
+    ...diff,
+    fieldDiffs,
+    ...(worst && worst.risk !== "safe"
+      ? assess(worst.risk!, `${worst.path}: ${worst.riskReason}`)
+      : assess("safe", docs.length === 0 ? "Table is empty" : `${docs.length} sampled documents fit`)),
+  };
+}
+
+function classifyFieldDiff(
+  diff: FieldDiff,
+  issues: ConformanceIssue[],
+  sampled: number
+): Assessment {
+  if (diff.change === "possibly_renamed") {
+    // Copying values over comes too late if the new field is already required
+    const lacking = countDocuments(
+      issues.filter((i) => i.kind === "missing_field" && i.path === diff.path)
+    );
+    if (lacking > 0) {
+      return assess("will_fail_push", `${lacking} of ${sampled} sampled documents lack it`);
+    }
+  }
+  if (diff.change === "removed" || diff.change === "possibly_renamed") {
+    const oldPath = diff.renamedFrom ?? diff.path;
+    const holding = countDocuments(
+      issues.filter((i) => i.kind === "extra_field" && i.path === oldPath)
+    );
+    if (holding > 0) {
+      return diff.change === "removed"
+        ? assess("will_fail_push", `${holding} of ${sampled} sampled documents still set it`)
+        : assess(
+          "needs_migration",
+          `${holding} of ${sampled} sampled documents hold values under "${oldPath}"`
+        );
+    }
+    if (diff.change === "removed") {
+      return assess("safe", "No sampled document sets it");
+    }
+  }
+
+  const broken = issues.filter(
+    (i) => i.kind !== "extra_field" && isAtOrUnder(i.path, diff.path)
+  );
+  if (broken.length === 0) {
+    return assess("safe", `All ${sampled} sampled documents fit`);
+  }
+
+  const count = countDocuments(broken);
+  if (broken.every((i) => i.kind === "missing_field")) {
+    return assess("will_fail_push", `${count} of ${sampled} sampled documents lack it`);
+  }
+  const example = broken.find((i) => i.kind !== "missing_field");
+  return assess(
+    "will_fail_push",
+    `${count} of ${sampled} sampled documents don't match ${example?.expected ?? "the new type"}` +
+      (example?.actual ? ` (e.g. ${example.actual})` : "")
+  );
+}
+
+function assess(risk: ChangeRisk, riskReason: string): Assessment {
+  return { risk, riskReason };
+}
+
+function countDocuments(issues: ConformanceIssue[]): number {
+  return new Set(issues.map((i) => i.documentId)).size;
+}
+
+/** Whether `path` is `field` or nested inside it. */
+function isAtOrUnder(path: string, field: string): boolean {
+  return (
+    path === field || path.startsWith(`${field}.`) || path.startsWith(`${field}[]`)
+  );
+}
@@ -0,0 +1,164 @@
+import type { ValidatorField, ValidatorNode } from "../shared/types";
+import { isConvexIdLike } from "./sampleInference";
+import { SYSTEM_FIELDS } from "./fieldPaths";
+
+/** Strings with at most this many distinct values become literal unions. */
+const MAX_LITERAL_VALUES = 8;
+
+/**
+ * Generate a `defineTable({...})` expression describing sampled documents.
+ *
+ * - Fields missing from some documents are wrapped in `v.optional`.
+ * - Low-cardinality strings become `v.union(v.literal(...), ...)`.
+ * - Strings that resolved as document IDs become `v.id("table")`.
+ *
+ * `resolvedIds` maps ID-shaped values to their table, as returned by
+ * `ConvexDataClient.resolveIds`.
+ */
+export function generateDefineTable(
+  docs: Record<string, unknown>[],
+  resolvedIds: Map<string, string> = new Map()
+): string {
+  const fields = inferObjectFields(docs, resolvedIds).filter(
+    (f) => !SYSTEM_FIELDS.has(f.name)
+  );
+  return `defineTable(${printObject(fields, 0)})`;
+}
+
+function inferObjectFields(
+  objects: Record<string, unknown>[],
+  resolvedIds: Map<string, string>
+): ValidatorField[] {
+  const values = new Map<string, unknown[]>();
+  for (const object of objects) {
+    for (const [key, value] of Object.entries(object)) {
+      const list = values.get(key) ?? [];
+      list.push(value);
+      values.set(key, list);
+    }
+  }
+
+  return Array.from(values, ([name, fieldValues]) => ({
+    name,
+    validator: {
+      ...inferValidator(fieldValues, resolvedIds),
+      optional: fieldValues.length < objects.length,
+    },
+  })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * A validator accepting every sampled value.
+ */
+function inferValidator(
+  values: unknown[],
+  resolvedIds: Map<string, string>
+): ValidatorNode {
+  const members: ValidatorNode[] = [];
+
+  const strings = values.filter((v): v is string => typeof v === "string");
+  if (strings.length > 0) {
+    members.push(...inferStringValidators(strings, resolvedIds));
+  }
+  if (values.some((v) => typeof v === "number")) {
+    members.push({ kind: "float64", optional: false });
+  }
+  if (values.some((v) => typeof v === "bigint")) {
+    members.push({ kind: "int64", optional: false });
+  }
+  if (values.some((v) => typeof v === "boolean")) {
+    members.push({ kind: "boolean", optional: false });
+  }
+  const arrays = values.filter((v): v is unknown[] => Array.isArray(v));
+  if (arrays.length > 0) {
+    const elements = arrays.flat();
+    members.push({
+      kind: "array",
+      optional: false,
+      element:
+        elements.length > 0
+          ? inferValidator(elements, resolvedIds)
+          : { kind: "any", optional: false },
+    });
+  }
+  const objects = values.filter(
+    (v): v is Record<string, unknown> =>
+      v !== null && typeof v === "object" && !Array.isArray(v)
+  );
+  if (objects.length > 0) {
+    members.push({
+      kind: "object",
+      optional: false,
+      fields: inferObjectFields(objects, resolvedIds),
+    });
+  }
+  if (values.some((v) => v === null)) {
+    members.push({ kind: "null", optional: false });
+  }
+
+  if (members.length === 0) {
+    return { kind: "any", optional: false };
+  }
+  return members.length === 1
+    ? members[0]
+    : { kind: "union", optional: false, members };
+}
+
+function inferStringValidators(
+  strings: string[],
+  resolvedIds: Map<string, string>
+): ValidatorNode[] {
+  const tables = new Set(
+    strings.map((s) => (isConvexIdLike(s) ? resolvedIds.get(s) : undefined))
+  );
+  if (tables.size === 1 && !tables.has(undefined)) {
+    return [{ kind: "id", optional: false, table: Array.from(tables)[0] }];
+  }
+
+  const distinct = Array.from(new Set(strings)).sort();
+  // Only call it an enum when values repeat; otherwise it's free text
+  if (
+    distinct.length <= MAX_LITERAL_VALUES &&
+    strings.length >= distinct.length * 2
+  ) {
+    return distinct.map((value) => ({ kind: "literal", optional: false, value }));
+  }
+  return [{ kind: "string", optional: false }];
+}
+
+function printObject(fields: ValidatorField[], depth: number): string {
+  if (fields.length === 0) {return "{}";}
+  const indent = "  ".repeat(depth + 1);
+  const lines = fields.map(
+    (f) => `${indent}${printKey(f.name)}: ${printValidator(f.validator, depth + 1)},`
+  );
+  return `{\n${lines.join("\n")}\n${"  ".repeat(depth)}}`;
+}
+
+function printValidator(node: ValidatorNode, depth: number): string {
+  const inner = printRequired(node, depth);
+  return node.optional ? `v.optional(${inner})` : inner;
+}
+
+function printRequired(node: ValidatorNode, depth: number): string {
+  switch (node.kind) {
+    case "float64":
+      return "v.number()";
+    case "id":
+      return `v.id(${JSON.stringify(node.table)})`;
+    case "literal":
+      return `v.literal(${JSON.stringify(node.value)})`;
+    case "array":
+      return `v.array(${node.element ? printValidator(node.element, depth) : "v.any()"})`;
+    case "object":
+      return `v.object(${printObject(node.fields ?? [], depth)})`;
+    case "union":
+      return `v.union(${(node.members ?? []).map((m) => printValidator(m, depth)).join(", ")})`;
+    default:
+      return `v.${node.kind}()`;
+  }
+}
+
+function printKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
@@ -0,0 +1,184 @@
+import type {
+  ConformanceIssue,
+  TableConformance,
+  TableSchema,
+  ValidatorField,
+  ValidatorNode,
+} from "../shared/types";
+import { inferSchemaFromDocs } from "./sampleInference";
+import { describeValidator } from "./validators";
+import { getTypeName, isTopLevelField, SYSTEM_FIELDS } from "./fieldPaths";
+
+/**
+ * Compare sampled documents against a table's declared validators.
+ * Tables without declared validators (e.g. inferred ones) report nothing.
+ */
+export function checkConformance(
+  schema: TableSchema,
+  docs: Record<string, unknown>[]
+): TableConformance {
+  const declared = getDeclaredFields(schema);
+  const issues: ConformanceIssue[] = [];
+
+  for (const doc of docs) {
+    const documentId = typeof doc._id === "string" ? doc._id : "";
+    const report = (issue: Omit<ConformanceIssue, "table" | "documentId">) =>
+      issues.push({ table: schema.table, documentId, ...issue });
+    checkObject(declared, doc, "", report);
+  }
+
+  const declaredNames = new Set(declared.map((f) => f.name));
+  const observed = inferSchemaFromDocs(schema.table, docs).schema;
+
+  return {
+    table: schema.table,
+    sampledDocs: docs.length,
+    issues,
+    undeclaredFields: observed.fields.filter(
+      (f) =>
+        isTopLevelField(f.path) &&
+        !declaredNames.has(f.path) &&
+        !SYSTEM_FIELDS.has(f.path)
+    ),
+  };
+}
+
+function getDeclaredFields(schema: TableSchema): ValidatorField[] {
+  return schema.fields
+    .filter((f) => isTopLevelField(f.path) && f.validator)
+    .map((f) => ({ name: f.path, validator: f.validator! }));
+}
+
+type Reporter = (issue: Omit<ConformanceIssue, "table" | "documentId">) => void;
+
+function checkObject(
+  fields: ValidatorField[],
+  value: Record<string, unknown>,
+  prefix: string,
+  report: Reporter
+): void {
+  const names = new Set(fields.map((f) => f.name));
+
+  for (const field of fields) {
+    const path = prefix ? `${prefix}.${field.name}` : field.name;
+    const fieldValue = value[field.name];
+    if (fieldValue === undefined) {
+      if (!field.validator.optional) {
+        report({
+          path,
+          kind: "missing_field",
+          expected: describeValidator(field.validator).join(" | "),
+        });
+      }
+      continue;
+    }
+    checkValue(field.validator, fieldValue, path, report);
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!names.has(key) && !(prefix === "" && SYSTEM_FIELDS.has(key))) {
+      report({
+        path: prefix ? `${prefix}.${key}` : key,
+        kind: "extra_field",
+        actual: getTypeName(value[key]),
+      });
+    }
+  }
+}
+
+function checkValue(
+  validator: ValidatorNode,
+  value: unknown,
+  path: string,
+  report: Reporter
+): void {
+  if (validator.kind === "union") {
+    checkUnion(validator, value, path, report);
+    return;
+  }
+  if (validator.kind === "literal") {
+    if (value !== validator.value) {
+      report({
+        path,
+        kind: "invalid_literal",
+        expected: JSON.stringify(validator.value),
+        actual: JSON.stringify(value),
+      });
+    }
+    return;
+  }
+  if (!matchesShape(validator, value)) {
+    report({
+      path,
+      kind: "wrong_type",
+      expected: describeValidator(validator).join(" | "),
+      actual: getTypeName(value),
+    });
+    return;
+  }
+
+  if (validator.kind === "object") {
+    checkObject(validator.fields ?? [], value as Record<string, unknown>, path, report);
+  } else if (validator.kind === "array" && validator.element) {
+    (value as unknown[]).forEach((item) =>
+      checkValue(validator.element!, item, `${path}[]`, report)
+    );
+  } else if (validator.kind === "record" && validator.element) {
+    for (const item of Object.values(value as Record<string, unknown>)) {
+      checkValue(validator.element, item, `${path}[]`, report);
+    }
+  }
+}
+
+function checkUnion(
+  validator: ValidatorNode,
+  value: unknown,
+  path: string,
+  report: Reporter
+): void {
+  const members = validator.members ?? [];
+  // A member accepts the value when checking it reports nothing
+  const accepted = members.some((member) => {
+    let clean = true;
+    checkValue(member, value, path, () => {
+      clean = false;
+    });
+    return clean;
+  });
+  if (accepted || members.length === 0) {return;}
+
+  const literals = members.filter((m) => m.kind === "literal");
+  const literalOnly = literals.length === members.length;
+  report({
+    path,
+    kind: literalOnly ? "invalid_literal" : "wrong_type",
+    expected: describeValidator(validator).join(" | "),
+    actual: literalOnly ? JSON.stringify(value) : getTypeName(value),
+  });
+}
+
+/** Whether the value has the validator's top-level shape. */
+function matchesShape(validator: ValidatorNode, value: unknown): boolean {
+  switch (validator.kind) {
+    case "string":
+    case "id":
+      return typeof value === "string";
+    case "float64":
+      return typeof value === "number";
+    case "int64":
+      // The CLI prints int64 values as numbers or bigint strings
+      return typeof value === "number" || typeof value === "bigint" || typeof value === "string";
+    case "boolean":
+      return typeof value === "boolean";
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+    case "record":
+      return value !== null && typeof value === "object" && !Array.isArray(value);
+    default:
+      // any, bytes and unresolved validators accept everything
+      return true;
+  }
+}
@@ -3,7 +3,13 @@ import type {
   SchemaDriftDto,
   TableDiff,
   FieldDiff,
+  FieldStat,
+  IndexDefinition,
+  IndexDiff,
+  RelationEdge,
+  RelationDiff,
 } from "../shared/types";
+import { getParentFieldPath } from "./fieldPaths";
 
 /**
  * Compare two schema snapshots and produce a structured drift diff.
@@ -69,54 +75,268 @@ export function computeDrift(
     return order[a.change] - order[b.change];
   });
 
-  const summary = buildSummary(tableDiffs);
+  // Older snapshots didn't record indexes, so there's nothing to compare
+  const indexDiffs =
+    from.indexes && to.indexes ? diffIndexes(from.indexes, to.indexes) : [];
+  const relationDiffs = diffRelations(from.relations, to.relations);
+
+  const summary = buildSummary(tableDiffs, indexDiffs, relationDiffs);
 
   return {
     fromSnapshotId: from.id,
     toSnapshotId: to.id,
     tableDiffs,
+    indexDiffs,
+    relationDiffs,
     summary,
   };
 }
 
-function diffFields(
-  fromFields: { path: string; types: string[] }[],
-  toFields: { path: string; types: string[] }[]
-): FieldDiff[] {
+/**
+ * Index changes, matched by table and name. Field order matters for
+ * `by_field` indexes, so a reordering counts as `fields_changed`.
+ */
+function diffIndexes(
+  fromIndexes: IndexDefinition[],
+  toIndexes: IndexDefinition[]
+): IndexDiff[] {
+  const diffs: IndexDiff[] = [];
+  const key = (i: IndexDefinition) => `${i.table}.${i.name}`;
+  const fromMap = new Map(fromIndexes.map((i) => [key(i), i]));
+  const toMap = new Map(toIndexes.map((i) => [key(i), i]));
+
+  for (const [k, toIndex] of toMap) {
+    const fromIndex = fromMap.get(k);
+    if (!fromIndex) {
+      diffs.push({
+        table: toIndex.table,
+        name: toIndex.name,
+        type: toIndex.type,
+        change: "added",
+        newFields: toIndex.fields,
+        newFilterFields: toIndex.filterFields,
+      });
+    } else if (
+      fromIndex.type !== toIndex.type ||
+      fromIndex.fields.join(",") !== toIndex.fields.join(",") ||
+      [...(fromIndex.filterFields ?? [])].sort().join(",") !==
+        [...(toIndex.filterFields ?? [])].sort().join(",")
+    ) {
+      diffs.push({
+        table: toIndex.table,
+        name: toIndex.name,
+        type: toIndex.type,
+        change: "fields_changed",
+        oldFields: fromIndex.fields,
+        newFields: toIndex.fields,
+        oldFilterFields: fromIndex.filterFields,
+        newFilterFields: toIndex.filterFields,
+      });
+    }
+  }
+
+  for (const [k, fromIndex] of fromMap) {
+    if (!toMap.has(k)) {
+      diffs.push({
+        table: fromIndex.table,
+        name: fromIndex.name,
+        type: fromIndex.type,
+        change: "removed",
+        oldFields: fromIndex.fields,
+        oldFilterFields: fromIndex.filterFields,
+      });
+    }
+  }
+
+  return diffs.sort(
+    (a, b) => a.table.localeCompare(b.table) || a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Relations added or removed, ignoring how each was found (parsed,
+ * inferred or manual) and its confidence.
+ */
+function diffRelations(
+  fromRelations: RelationEdge[],
+  toRelations: RelationEdge[]
+): RelationDiff[] {
+  const key = (r: RelationEdge) => `${r.fromTable}.${r.fromFieldPath}->${r.toTable}`;
+  const fromKeys = new Set(fromRelations.map(key));
+  const toKeys = new Set(toRelations.map(key));
+  const toDiff = (r: RelationEdge, change: RelationDiff["change"]): RelationDiff => ({
+    fromTable: r.fromTable,
+    fromFieldPath: r.fromFieldPath,
+    toTable: r.toTable,
+    change,
+  });
+
+  return [
+    ...toRelations.filter((r) => !fromKeys.has(key(r))).map((r) => toDiff(r, "added")),
+    ...fromRelations.filter((r) => !toKeys.has(key(r))).map((r) => toDiff(r, "removed")),
+  ].sort(
+    (a, b) =>
+      a.fromTable.localeCompare(b.fromTable) ||
+      a.fromFieldPath.localeCompare(b.fromFieldPath)
+  );
+}
+
+/**
+ * A sampled field counts as optional once this share of documents lacks
+ * it, so a stray document missing from one sample isn't reported as drift.
+ */
+const OPTIONAL_RATE_THRESHOLD = 0.1;
+
+/** Minimum name similarity for a removed/added pair to count as a rename. */
+const RENAME_THRESHOLD = 0.6;
+
+function diffFields(fromFields: FieldStat[], toFields: FieldStat[]): FieldDiff[] {
   const diffs: FieldDiff[] = [];
 
   const fromMap = new Map(fromFields.map((f) => [f.path, f]));
   const toMap = new Map(toFields.map((f) => [f.path, f]));
+  const added: FieldStat[] = [];
+  const removed: FieldStat[] = [];
 
   for (const [path, toField] of toMap) {
     const fromField = fromMap.get(path);
     if (!fromField) {
-      diffs.push({ path, change: "added", newTypes: toField.types });
-    } else {
-      const typesChanged =
-        JSON.stringify([...toField.types].sort()) !==
-        JSON.stringify([...fromField.types].sort());
-      if (typesChanged) {
-        diffs.push({
-          path,
-          change: "type_changed",
-          oldTypes: fromField.types,
-          newTypes: toField.types,
-        });
-      }
+      added.push(toField);
+      continue;
+    }
+    if (!sameTypes(fromField.types, toField.types)) {
+      diffs.push({
+        path,
+        change: "type_changed",
+        oldTypes: fromField.types,
+        newTypes: toField.types,
+      });
+    }
+    // Declared and sampled optionality don't measure the same thing
+    const comparable = (fromField.validator === undefined) === (toField.validator === undefined);
+    const oldOptional = isOptional(fromField);
+    const newOptional = isOptional(toField);
+    if (comparable && oldOptional !== newOptional) {
+      diffs.push({
+        path,
+        change: "optionality_changed",
+        oldOptional,
+        newOptional,
+        // Lets migrations pick a backfill value
+        newTypes: toField.types,
+      });
     }
   }
 
   for (const [path, fromField] of fromMap) {
     if (!toMap.has(path)) {
-      diffs.push({ path, change: "removed", oldTypes: fromField.types });
+      removed.push(fromField);
+    }
+  }
+
+  const renames = pairRenames(removed, added);
+  const renamedFrom = new Set(renames.map((r) => r.renamedFrom));
+  const renamedTo = new Set(renames.map((r) => r.path));
+  diffs.push(...renames);
+  for (const field of added) {
+    if (!renamedTo.has(field.path)) {
+      diffs.push({ path: field.path, change: "added", newTypes: field.types });
+    }
+  }
+  for (const field of removed) {
+    if (!renamedFrom.has(field.path)) {
+      diffs.push({ path: field.path, change: "removed", oldTypes: field.types });
     }
   }
 
   return diffs.sort((a, b) => a.path.localeCompare(b.path));
 }
 
-function buildSummary(tableDiffs: TableDiff[]): string {
+function sameTypes(a: string[], b: string[]): boolean {
+  return JSON.stringify([...a].sort()) === JSON.stringify([...b].sort());
+}
+
+/** Declared optionality, else how often the field was missing. */
+function isOptional(field: FieldStat): boolean {
+  return field.validator
+    ? field.validator.optional
+    : field.optionalRate > OPTIONAL_RATE_THRESHOLD;
+}
+
+/**
+ * Pair removed and added fields that share a parent and types and have
+ * similar names, best matches first. Each field is used at most once.
+ */
+function pairRenames(removed: FieldStat[], added: FieldStat[]): FieldDiff[] {
+  const candidates: (FieldDiff & { renamedFrom: string; confidence: number })[] = [];
+  for (const from of removed) {
+    for (const to of added) {
+      if (
+        getParentFieldPath(from.path) !== getParentFieldPath(to.path) ||
+        !sameTypes(from.types, to.types)
+      ) {
+        continue;
+      }
+      const confidence = nameSimilarity(lastSegment(from.path), lastSegment(to.path));
+      if (confidence >= RENAME_THRESHOLD) {
+        candidates.push({
+          path: to.path,
+          change: "possibly_renamed",
+          renamedFrom: from.path,
+          oldTypes: from.types,
+          newTypes: to.types,
+          confidence,
+        });
+      }
+    }
+  }
+
+  const usedFrom = new Set<string>();
+  const usedTo = new Set<string>();
+  const renames: FieldDiff[] = [];
+  for (const candidate of candidates.sort((a, b) => b.confidence - a.confidence)) {
+    if (usedFrom.has(candidate.renamedFrom) || usedTo.has(candidate.path)) {continue;}
+    usedFrom.add(candidate.renamedFrom);
+    usedTo.add(candidate.path);
+    renames.push(candidate);
+  }
+  return renames;
+}
+
+function lastSegment(path: string): string {
+  return path.slice(path.lastIndexOf(".") + 1).replace(/\[\]$/, "");
+}
+
+/**
+ * 1 minus the normalized edit distance, ignoring case and `_`/`-`
+ * separators so `userId` and `user_id` match exactly.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const x = a.toLowerCase().replace(/[_-]/g, "");
+  const y = b.toLowerCase().replace(/[_-]/g, "");
+  const longest = Math.max(x.length, y.length);
+  if (longest === 0) {return 1;}
+
+  let previous = Array.from({ length: y.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= x.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= y.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (x[i - 1] === y[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[y.length] / longest;
+}
+
+function buildSummary(
+  tableDiffs: TableDiff[],
+  indexDiffs: IndexDiff[],
+  relationDiffs: RelationDiff[]
+): string {
   const added = tableDiffs.filter((t) => t.change === "added").length;
   const removed = tableDiffs.filter((t) => t.change === "removed").length;
   const modified = tableDiffs.filter((t) => t.change === "modified").length;
@@ -133,6 +353,11 @@ function buildSummary(tableDiffs: TableDiff[]): string {
     );
   }
 
+  if (indexDiffs.length) {parts.push(`${indexDiffs.length} index change(s)`);}
+  if (relationDiffs.length) {
+    parts.push(`${relationDiffs.length} relation change(s)`);
+  }
+
   if (parts.length === 0) {return "No schema changes detected.";}
   return parts.join(", ") + ".";
 }
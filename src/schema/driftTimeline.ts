@@ -0,0 +1,60 @@
+import type {
+  DriftTimelineDto,
+  FieldTimeline,
+  SchemaSnapshot,
+  TableTimeline,
+} from "../shared/types";
+import { computeDrift } from "./driftDiff";
+
+/**
+ * Drift between every pair of consecutive snapshots, plus a per-table
+ * history of each field's types and changes across all of them.
+ */
+export function buildDriftTimeline(snapshots: SchemaSnapshot[]): DriftTimelineDto {
+  const ordered = [...snapshots].sort((a, b) => a.createdAt - b.createdAt);
+  const steps = ordered
+    .slice(1)
+    .map((snapshot, i) => computeDrift(ordered[i], snapshot));
+
+  const tableNames = new Set(ordered.flatMap((s) => s.tables.map((t) => t.table)));
+  const tables: TableTimeline[] = Array.from(tableNames)
+    .sort()
+    .map((table) => {
+      const schemas = ordered.map((s) => s.tables.find((t) => t.table === table));
+      const paths = new Set(schemas.flatMap((t) => t?.fields.map((f) => f.path) ?? []));
+
+      const fields: FieldTimeline[] = Array.from(paths)
+        .sort()
+        .map((path) => ({
+          path,
+          types: schemas.map(
+            (t) => t?.fields.find((f) => f.path === path)?.types ?? null
+          ),
+          changes: ordered.map((_, i) => {
+            if (i === 0) {return [];}
+            const tableDiff = steps[i - 1].tableDiffs.find((d) => d.table === table);
+            const changes = (tableDiff?.fieldDiffs ?? [])
+              .filter((d) => d.path === path)
+              .map((d) => d.change);
+            // The old side of a rename disappears at this point
+            if (tableDiff?.fieldDiffs.some((d) => d.renamedFrom === path)) {
+              changes.push("removed");
+            }
+            return changes;
+          }),
+        }));
+
+      return { table, present: schemas.map((t) => t !== undefined), fields };
+    });
+
+  return {
+    points: ordered.map((s) => ({
+      snapshotId: s.id,
+      createdAt: s.createdAt,
+      label: s.label,
+      git: s.git,
+    })),
+    steps,
+    tables,
+  };
+}
@@ -0,0 +1,54 @@
+/** Fields Convex adds to every document; never declared in the schema. */
+export const SYSTEM_FIELDS: ReadonlySet<string> = new Set(["_id", "_creationTime"]);
+
+/** Type of a sampled value: `null`, `array`, or its `typeof`. */
+export function getTypeName(value: unknown): string {
+  if (value === null) {return "null";}
+  if (Array.isArray(value)) {return "array";}
+  return typeof value;
+}
+
+/**
+ * Parent of a flattened field path: `address.geo.lat` → `address.geo`,
+ * `tags[]` → `tags`, `items[].sku` → `items[]`. Undefined for top-level fields.
+ */
+export function getParentFieldPath(path: string): string | undefined {
+  if (path.endsWith("[]")) {
+    return path.slice(0, -2);
+  }
+  const dot = path.lastIndexOf(".");
+  return dot === -1 ? undefined : path.slice(0, dot);
+}
+
+export function isTopLevelField(path: string): boolean {
+  return getParentFieldPath(path) === undefined;
+}
+
+/**
+ * Values at a field path. `[]` segments fan out over array elements, so a
+ * single document may contribute several values.
+ */
+export function getValuesAtPath(doc: unknown, path: string): unknown[] {
+  const segments = path.split(/\.|(?=\[\])/);
+  let current: unknown[] = [doc];
+
+  for (const segment of segments) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (segment === "[]") {
+        if (Array.isArray(value)) {
+          next.push(...value);
+        }
+      } else if (
+        value !== null &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        segment in value
+      ) {
+        next.push((value as Record<string, unknown>)[segment]);
+      }
+    }
+    current = next;
+  }
+  return current;
+}
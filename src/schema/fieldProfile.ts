@@ -0,0 +1,114 @@
+import type {
+  FieldProfileDto,
+  HistogramBucket,
+  NumericSummary,
+  ValueFrequency,
+} from "../shared/types";
+import { getTypeName, getValuesAtPath } from "./fieldPaths";
+
+const TOP_VALUE_COUNT = 10;
+
+/** 2000-01-01 and 2100-01-01 in milliseconds. */
+const TIMESTAMP_RANGE = [946684800000, 4102444800000];
+
+/**
+ * Profile the values found at `path` across sampled documents.
+ * Paths use the same syntax as `FieldStat.path` (`address.geo.lat`,
+ * `tags[]`, `items[].sku`).
+ */
+export function profileField(
+  table: string,
+  path: string,
+  docs: Record<string, unknown>[]
+): FieldProfileDto {
+  const values: unknown[] = [];
+  let missingCount = 0;
+  for (const doc of docs) {
+    const found = getValuesAtPath(doc, path);
+    if (found.length === 0) {
+      missingCount++;
+    }
+    values.push(...found);
+  }
+
+  const present = values.filter((v) => v !== null);
+  const counts = new Map<string, number>();
+  const types: Record<string, number> = {};
+  for (const value of values) {
+    const key = JSON.stringify(value) ?? "undefined";
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+    const type = getTypeName(value);
+    types[type] = (types[type] ?? 0) + 1;
+  }
+
+  const topValues: ValueFrequency[] = Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_VALUE_COUNT);
+
+  const numbers = present.filter((v): v is number => typeof v === "number");
+  const strings = present.filter((v): v is string => typeof v === "string");
+  const arrays = present.filter((v): v is unknown[] => Array.isArray(v));
+
+  const numberSummary = summarize(numbers);
+  const looksLikeTimestamps =
+    numberSummary !== undefined &&
+    numbers.length === present.length &&
+    numberSummary.min >= TIMESTAMP_RANGE[0] &&
+    numberSummary.max <= TIMESTAMP_RANGE[1];
+
+  const stringLengths = strings.map((s) => s.length);
+  const arrayLengths = arrays.map((a) => a.length);
+
+  return {
+    table,
+    path,
+    sampledDocs: docs.length,
+    valueCount: values.length,
+    missingCount,
+    nullCount: values.length - present.length,
+    distinctCount: counts.size,
+    topValues,
+    types,
+    numbers: numberSummary,
+    timestamps: looksLikeTimestamps
+      ? { min: numberSummary.min, max: numberSummary.max }
+      : undefined,
+    stringLengths: withHistogram(stringLengths),
+    arrayLengths: withHistogram(arrayLengths),
+  };
+}
+
+function summarize(values: number[]): NumericSummary | undefined {
+  if (values.length === 0) {return undefined;}
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  for (const value of values) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+    sum += value;
+  }
+  return { min, max, mean: sum / values.length };
+}
+
+/**
+ * Summary plus up to eight equal-width buckets over the observed range.
+ */
+function withHistogram(
+  values: number[]
+): (NumericSummary & { histogram: HistogramBucket[] }) | undefined {
+  const summary = summarize(values);
+  if (!summary) {return undefined;}
+
+  const span = summary.max - summary.min + 1;
+  const width = Math.max(1, Math.ceil(span / 8));
+  const histogram: HistogramBucket[] = [];
+  for (let start = summary.min; start <= summary.max; start += width) {
+    const end = start + width - 1;
+    histogram.push({
+      label: start === end ? `${start}` : `${start}–${end}`,
+      count: values.filter((v) => v >= start && v <= end).length,
+    });
+  }
+  return { ...summary, histogram };
+}
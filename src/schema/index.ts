@@ -1,4 +1,35 @@
-export { parseConvexSchema } from "./schemaParser";
-export { inferSchemaFromDocs } from "./sampleInference";
+export {
+  parseConvexSchema,
+  parseSchemaFromSources,
+  type SchemaParseResult,
+} from "./schemaParser";
+export { SchemaWatcher } from "./schemaWatcher";
+export { SchemaDiagnostics } from "./schemaDiagnostics";
+export { inferSchemaFromDocs, collectIdCandidates } from "./sampleInference";
 export { SnapshotStore } from "./snapshotStore";
 export { computeDrift } from "./driftDiff";
+export { buildDriftTimeline } from "./driftTimeline";
+export { classifyDrift } from "./breakingChanges";
+export {
+  generateMigrationModule,
+  migrationModuleName,
+} from "./migrationScaffold";
+export { checkConformance } from "./conformance";
+export { profileField } from "./fieldProfile";
+export { generateDefineTable } from "./codegen";
+export { insertTableDefinition } from "./schemaEdits";
+export {
+  RelationOverrideStore,
+  applyRelationOverrides,
+} from "./relationOverrides";
+export {
+  inferSchemaFromDeployment,
+  type LiveInferenceResult,
+} from "./liveInference";
+export { scanRelationIntegrity } from "./integrity";
+export {
+  getParentFieldPath,
+  getTypeName,
+  isTopLevelField,
+  SYSTEM_FIELDS,
+} from "./fieldPaths";
@@ -0,0 +1,103 @@
+import type { ConvexDataClient } from "../data/convexClient";
+import { nextPageSize } from "../data/sampling";
+import type {
+  OrphanReference,
+  RelationEdge,
+  RelationIntegrity,
+} from "../shared/types";
+import { getValuesAtPath } from "./fieldPaths";
+
+/**
+ * Page through a relation's source table and report every document whose
+ * reference at `fromFieldPath` no longer resolves in `toTable`. Stops
+ * after `docLimit` documents. Pages are as large as the CLI output allows,
+ * and each page's new IDs are checked in batches.
+ */
+export async function scanRelationIntegrity(
+  client: ConvexDataClient,
+  relation: RelationEdge,
+  docLimit: number,
+  onProgress?: (scannedDocs: number) => void
+): Promise<RelationIntegrity> {
+  const checked = new Set<string>();
+  const missing = new Set<string>();
+  const orphans: OrphanReference[] = [];
+  let scannedDocs = 0;
+  let bytes = 0;
+  let cursor: string | null = null;
+  let isDone = false;
+
+  while (!isDone && scannedDocs < docLimit) {
+    onProgress?.(scannedDocs);
+    const result = await client.pageDocs(
+      relation.fromTable,
+      cursor,
+      Math.min(
+        nextPageSize(scannedDocs > 0 ? bytes / scannedDocs : undefined),
+        docLimit - scannedDocs
+      )
+    );
+    const docs = result.page as Record<string, unknown>[];
+    scannedDocs += docs.length;
+    bytes += JSON.stringify(docs).length;
+    cursor = result.continueCursor;
+    isDone = result.isDone;
+
+    const references = collectReferences(docs, relation.fromFieldPath);
+    const unchecked = Array.from(references.keys()).filter((id) => !checked.has(id));
+    unchecked.forEach((id) => checked.add(id));
+    if (unchecked.length > 0) {
+      const found = await client.findMissingIds(relation.toTable, unchecked);
+      found.forEach((id) => missing.add(id));
+    }
+    orphans.push(...findOrphans(references, missing));
+  }
+
+  return {
+    fromTable: relation.fromTable,
+    fromFieldPath: relation.fromFieldPath,
+    toTable: relation.toTable,
+    scannedDocs,
+    checkedRefs: checked.size,
+    orphans,
+    truncated: !isDone,
+  };
+}
+
+/**
+ * String values at `fieldPath`, mapped to the IDs of the documents that
+ * hold them. `[]` segments fan out, so `memberIds[]` yields one reference
+ * per array element.
+ */
+export function collectReferences(
+  docs: Record<string, unknown>[],
+  fieldPath: string
+): Map<string, string[]> {
+  const references = new Map<string, string[]>();
+  for (const doc of docs) {
+    const documentId = String(doc._id);
+    for (const value of getValuesAtPath(doc, fieldPath)) {
+      if (typeof value !== "string") {continue;}
+      const holders = references.get(value) ?? [];
+      if (!holders.includes(documentId)) {
+        holders.push(documentId);
+      }
+      references.set(value, holders);
+    }
+  }
+  return references;
+}
+
+export function findOrphans(
+  references: Map<string, string[]>,
+  missing: Set<string>
+): OrphanReference[] {
+  const orphans: OrphanReference[] = [];
+  for (const [missingId, documentIds] of references) {
+    if (!missing.has(missingId)) {continue;}
+    for (const documentId of documentIds) {
+      orphans.push({ documentId, missingId });
+    }
+  }
+  return orphans;
+}
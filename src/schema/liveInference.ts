@@ -0,0 +1,57 @@
+import type * as vscode from "vscode";
+import type { ConvexDataClient } from "../data/convexClient";
+import { sampleDocs } from "../data/sampling";
+import type {
+  IndexDefinition,
+  RelationEdge,
+  TableSchema,
+} from "../shared/types";
+import { collectIdCandidates, inferSchemaFromDocs } from "./sampleInference";
+
+export interface LiveInferenceResult {
+  tables: TableSchema[];
+  indexes: IndexDefinition[];
+  relations: RelationEdge[];
+}
+
+/**
+ * Build tables, fields and relations purely from the deployment's data,
+ * for projects without a convex/schema.ts. Every table is sampled with the
+ * configured strategy, up to `sampleLimit` documents, and marked as
+ * inferred. Relations come from
+ * sampled values that the deployment confirms are IDs of another table.
+ * Undefined once `token` is cancelled.
+ */
+export async function inferSchemaFromDeployment(
+  client: ConvexDataClient,
+  sampleLimit: number,
+  token?: vscode.CancellationToken
+): Promise<LiveInferenceResult | undefined> {
+  const tableNames = await client.listTables();
+  const samples = new Map<string, Record<string, unknown>[]>();
+  for (const table of tableNames) {
+    if (token?.isCancellationRequested) {return undefined;}
+    samples.set(table, await sampleDocs(client, table, sampleLimit, { token }));
+  }
+  if (token?.isCancellationRequested) {return undefined;}
+
+  // Attribute ID-shaped values to real tables instead of guessing by name
+  const candidates = new Set<string>();
+  for (const docs of samples.values()) {
+    collectIdCandidates(docs).forEach((id) => candidates.add(id));
+  }
+  const resolvedIds =
+    candidates.size > 0
+      ? await client.resolveIds(Array.from(candidates), tableNames)
+      : new Map<string, string>();
+
+  const tables: TableSchema[] = [];
+  const relations: RelationEdge[] = [];
+  for (const [table, docs] of samples) {
+    const inferred = inferSchemaFromDocs(table, docs, resolvedIds);
+    tables.push({ ...inferred.schema, source: "inferred" });
+    relations.push(...inferred.relations);
+  }
+
+  return { tables, indexes: [], relations };
+}
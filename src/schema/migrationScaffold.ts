@@ -0,0 +1,288 @@
+import type { FieldDiff, SchemaDriftDto, TableDiff } from "../shared/types";
+import { getParentFieldPath, isTopLevelField } from "./fieldPaths";
+
+/** Documents per page unless the caller passes `batchSize`. */
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Whether a field change leaves existing documents to convert: retyped,
+ * removed and renamed fields, and fields made required.
+ */
+export function needsMigration(diff: FieldDiff): boolean {
+  switch (diff.change) {
+    case "type_changed":
+    case "removed":
+    case "possibly_renamed":
+      return true;
+    case "optionality_changed":
+      return diff.newOptional === false;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Module name for a migration generated at `date`, e.g.
+ * `drift_20240131_142500`.
+ */
+export function migrationModuleName(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `drift_${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `_${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  );
+}
+
+/**
+ * Generate a Convex module migrating the data of a drift's modified tables.
+ * `modulePath` is where the file goes relative to the convex directory,
+ * without extension, e.g. `migrations/drift_20240131_142500`.
+ *
+ * Each table gets an `internalMutation` that patches one page of documents
+ * and schedules itself for the next page; `runAll` starts every table.
+ * They default to `dryRun: true`, which only counts what would change.
+ * Type conversions and backfill values are left as TODOs to review.
+ * Undefined when no field change needs a migration.
+ */
+export function generateMigrationModule(
+  drift: SchemaDriftDto,
+  modulePath: string
+): string | undefined {
+  const tables = drift.tableDiffs
+    .filter((t) => t.change === "modified")
+    .map((t) => ({ ...t, fieldDiffs: t.fieldDiffs.filter(needsMigration) }))
+    .filter((t) => t.fieldDiffs.length > 0);
+  if (tables.length === 0) {return undefined;}
+
+  const reference = `internal.${modulePath.split("/").join(".")}`;
+  const from = drift.fromLabel ?? drift.fromSnapshotId;
+  const to = drift.toLabel ?? drift.toSnapshotId;
+  const mutations = tables.map((t) => printTableMigration(t, reference));
+
+  return `import { v } from "convex/values";
+import { internal } from "../_generated/api";
+import { internalMutation } from "../_generated/server";
+
+/*
+ * Data migration for schema drift ${from} → ${to}.
+ * Generated by ExConvex: review every TODO before running.
+ *
+ * Each mutation patches one page of documents and schedules itself for
+ * the next. Runs are dry by default and only log what would change:
+ *
+ *   npx convex run ${modulePath}:runAll
+ *   npx convex run ${modulePath}:runAll '{"dryRun": false}'
+ */
+
+const migrationArgs = {
+  cursor: v.optional(v.union(v.string(), v.null())),
+  batchSize: v.optional(v.number()),
+  dryRun: v.optional(v.boolean()),
+};
+
+type PageResult = { scanned: number; changed: number; isDone: boolean };
+
+export const runAll = internalMutation({
+  args: { batchSize: v.optional(v.number()), dryRun: v.optional(v.boolean()) },
+  handler: async (ctx, args): Promise<void> => {
+${tables
+    .map(
+      (t) =>
+        `    await ctx.scheduler.runAfter(0, ${reference}.${mutationName(t.table)}, args);`
+    )
+    .join("\n")}
+  },
+});
+${mutations.join("")}`;
+}
+
+function printTableMigration(diff: TableDiff, reference: string): string {
+  const name = mutationName(diff.table);
+  const steps = diff.fieldDiffs.map((fd) => printFieldStep(diff.table, fd));
+  const converters = diff.fieldDiffs
+    .filter((fd) => fd.change === "type_changed" && isTopLevelField(fd.path))
+    .map((fd) => printConverter(diff.table, fd));
+
+  return `
+/**
+ * ${diff.table}:
+${diff.fieldDiffs.map((fd) => ` * - ${describeChange(fd)}`).join("\n")}
+ */
+export const ${name} = internalMutation({
+  args: migrationArgs,
+  handler: async (ctx, args): Promise<PageResult> => {
+    const { cursor = null, batchSize = ${DEFAULT_BATCH_SIZE}, dryRun = true } = args;
+    const result = await ctx.db
+      .query(${JSON.stringify(diff.table)})
+      .paginate({ cursor, numItems: batchSize });
+
+    let changed = 0;
+    for (const doc of result.page) {
+      // Typed loosely: the document may still have its old shape
+      const data = doc as Record<string, unknown>;
+      const patch: Record<string, unknown> = {};
+${steps.join("\n")}
+
+      if (Object.keys(patch).length > 0) {
+        changed++;
+        if (!dryRun) {
+          await ctx.db.patch(doc._id, patch as Partial<typeof doc>);
+        }
+      }
+    }
+
+    console.log(
+      \`${diff.table}: \${changed} of \${result.page.length} documents \${dryRun ? "would change" : "changed"}\`
+    );
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, ${reference}.${name}, {
+        cursor: result.continueCursor,
+        batchSize,
+        dryRun,
+      });
+    }
+    return { scanned: result.page.length, changed, isDone: result.isDone };
+  },
+});
+${converters.join("")}`;
+}
+
+function printFieldStep(table: string, diff: FieldDiff): string {
+  const indent = "      ";
+  const nested = [diff.path, diff.renamedFrom].find(
+    (p) => p !== undefined && !isTopLevelField(p)
+  );
+  if (nested) {
+    return (
+      `${indent}// TODO: ${describeChange(diff)}\n` +
+      `${indent}// "${nested}" is nested; patch its parent "${getParentFieldPath(nested)}" instead.`
+    );
+  }
+
+  const field = access("data", diff.path);
+  const target = access("patch", diff.path);
+  switch (diff.change) {
+    case "removed":
+      return (
+        `${indent}// ${describeChange(diff)}\n` +
+        `${indent}if (${field} !== undefined) {\n` +
+        `${indent}  ${target} = undefined;\n` +
+        `${indent}}`
+      );
+    case "possibly_renamed": {
+      const old = access("data", diff.renamedFrom!);
+      return (
+        `${indent}// ${describeChange(diff)}\n` +
+        `${indent}if (${old} !== undefined) {\n` +
+        `${indent}  if (${field} === undefined) {\n` +
+        `${indent}    ${target} = ${old};\n` +
+        `${indent}  }\n` +
+        `${indent}  ${access("patch", diff.renamedFrom!)} = undefined;\n` +
+        `${indent}}`
+      );
+    }
+    case "type_changed": {
+      const converter = converterName(table, diff.path);
+      return (
+        `${indent}// ${describeChange(diff)}\n` +
+        `${indent}if (${field} !== undefined) {\n` +
+        `${indent}  const converted = ${converter}(${field});\n` +
+        `${indent}  if (converted !== ${field}) {\n` +
+        `${indent}    ${target} = converted;\n` +
+        `${indent}  }\n` +
+        `${indent}}`
+      );
+    }
+    default: {
+      const placeholder = placeholderFor(diff.newTypes ?? []);
+      const value = placeholder ?? "undefined";
+      return (
+        `${indent}// ${describeChange(diff)}\n` +
+        `${indent}if (${field} === undefined) {\n` +
+        `${indent}  // TODO: ${placeholder ? "choose the backfill value" : `backfill a value of type ${formatTypes(diff.newTypes)}`}\n` +
+        `${indent}  ${target} = ${value};\n` +
+        `${indent}}`
+      );
+    }
+  }
+}
+
+function printConverter(table: string, diff: FieldDiff): string {
+  return `
+/** ${table}.${diff.path}: ${formatTypes(diff.oldTypes)} → ${formatTypes(diff.newTypes)} */
+function ${converterName(table, diff.path)}(value: unknown): unknown {
+  // TODO: convert values that don't fit the new type
+  return value;
+}
+`;
+}
+
+function describeChange(diff: FieldDiff): string {
+  switch (diff.change) {
+    case "removed":
+      return `${diff.path}: removed`;
+    case "possibly_renamed":
+      return `${diff.renamedFrom} renamed to ${diff.path}`;
+    case "type_changed":
+      return `${diff.path}: ${formatTypes(diff.oldTypes)} → ${formatTypes(diff.newTypes)}`;
+    case "optionality_changed":
+      return `${diff.path}: now required`;
+    default:
+      return `${diff.path}: ${diff.change.replace(/_/g, " ")}`;
+  }
+}
+
+/**
+ * A value of one of `types`, as source text, for backfilling required
+ * fields. Undefined for types with no obvious default such as IDs.
+ */
+function placeholderFor(types: string[]): string | undefined {
+  for (const type of types) {
+    if (type.startsWith("\"") || /^-?\d/.test(type) || type === "true" || type === "false") {
+      return type;
+    }
+    switch (type) {
+      case "string":
+        return "\"\"";
+      case "number":
+        return "0";
+      case "bigint":
+        return "0n";
+      case "boolean":
+        return "false";
+      case "null":
+        return "null";
+      case "object":
+        return "{}";
+    }
+    if (type.endsWith("[]") || type === "array") {return "[]";}
+    if (type.startsWith("Record<")) {return "{}";}
+  }
+  return undefined;
+}
+
+function formatTypes(types: string[] | undefined): string {
+  return types?.length ? types.join(" | ") : "unknown";
+}
+
+function access(object: string, field: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(field)
+    ? `${object}.${field}`
+    : `${object}[${JSON.stringify(field)}]`;
+}
+
+function mutationName(table: string): string {
+  return `migrate${pascalCase(table)}`;
+}
+
+function converterName(table: string, path: string): string {
+  return `convert${pascalCase(table)}${pascalCase(path)}`;
+}
+
+function pascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
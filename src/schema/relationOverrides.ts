@@ -0,0 +1,129 @@
+import * as vscode from "vscode";
+import type { RelationEdge, RelationOverrideDto } from "../shared/types";
+
+const OVERRIDES_FILE = ".vscode/exconvex.relations.json";
+
+/**
+ * Manual relation edits made in the schema graph, persisted to a workspace
+ * file so they can be committed and shared. The latest override for a
+ * given `fromTable.fromFieldPath -> toTable` wins. Edits made to the file
+ * outside the graph, e.g. by hand or a checkout, are picked up too.
+ */
+export class RelationOverrideStore implements vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private _overrides: RelationOverrideDto[] | undefined;
+  /** What `set` last wrote, so the watcher skips the store's own writes. */
+  private _written: string | undefined;
+  private readonly _watcher: vscode.FileSystemWatcher | undefined;
+
+  constructor() {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (folder) {
+      this._watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(folder, OVERRIDES_FILE)
+      );
+      this._watcher.onDidChange(() => void this._reload());
+      this._watcher.onDidCreate(() => void this._reload());
+      this._watcher.onDidDelete(() => void this._reload());
+    }
+  }
+
+  private get _fileUri(): vscode.Uri | undefined {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return folder ? vscode.Uri.joinPath(folder.uri, OVERRIDES_FILE) : undefined;
+  }
+
+  async load(): Promise<RelationOverrideDto[]> {
+    if (this._overrides) {return this._overrides;}
+
+    const uri = this._fileUri;
+    this._overrides = [];
+    if (!uri) {return this._overrides;}
+    try {
+      const content = await vscode.workspace.fs.readFile(uri);
+      const parsed = JSON.parse(Buffer.from(content).toString("utf-8"));
+      if (Array.isArray(parsed?.overrides)) {
+        this._overrides = parsed.overrides as RelationOverrideDto[];
+      }
+    } catch {
+      // No overrides saved yet
+    }
+    return this._overrides;
+  }
+
+  async set(override: RelationOverrideDto): Promise<void> {
+    const uri = this._fileUri;
+    if (!uri) {
+      vscode.window.showWarningMessage(
+        "Open a workspace folder to save relation overrides."
+      );
+      return;
+    }
+
+    const overrides = (await this.load()).filter(
+      (o) => overrideKey(o) !== overrideKey(override)
+    );
+    overrides.push(override);
+
+    const content = JSON.stringify({ overrides }, null, 2) + "\n";
+    this._written = content;
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf-8"));
+    this._overrides = overrides;
+    this._onDidChange.fire();
+  }
+
+  private async _reload(): Promise<void> {
+    const uri = this._fileUri;
+    if (uri && this._written !== undefined) {
+      try {
+        const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf-8");
+        if (content === this._written) {return;}
+      } catch {
+        // Deleted
+      }
+    }
+    this._written = undefined;
+    this._overrides = undefined;
+    this._onDidChange.fire();
+  }
+
+  dispose(): void {
+    this._watcher?.dispose();
+    this._onDidChange.dispose();
+  }
+}
+
+/**
+ * Apply manual overrides on top of parsed or inferred relations: `add`
+ * produces a `manual` edge, `remove` hides any matching edge.
+ */
+export function applyRelationOverrides(
+  relations: RelationEdge[],
+  overrides: RelationOverrideDto[]
+): RelationEdge[] {
+  const byKey = new Map(overrides.map((o) => [overrideKey(o), o]));
+  const merged = relations.filter((r) => !byKey.has(overrideKey(r)));
+
+  for (const override of byKey.values()) {
+    if (override.action === "add") {
+      merged.push({
+        fromTable: override.fromTable,
+        fromFieldPath: override.fromFieldPath,
+        toTable: override.toTable,
+        confidence: 1.0,
+        source: "manual",
+      });
+    }
+  }
+  return merged;
+}
+
+function overrideKey(relation: {
+  fromTable: string;
+  fromFieldPath: string;
+  toTable: string;
+}): string {
+  return `${relation.fromTable}.${relation.fromFieldPath}->${relation.toTable}`;
+}
@@ -1,12 +1,28 @@
 import type { FieldStat, TableSchema, RelationEdge } from "../shared/types";
+import { getParentFieldPath, getTypeName } from "./fieldPaths";
+
+/**
+ * Convex document IDs: 31–37 characters of Crockford-style base32.
+ */
+const CONVEX_ID_PATTERN = /^[0-9abcdefghjkmnpqrstvwxyz]{31,37}$/;
+
+export function isConvexIdLike(value: unknown): value is string {
+  return typeof value === "string" && CONVEX_ID_PATTERN.test(value);
+}
 
 /**
  * Infer schema from sampled documents.
  * Used to supplement or validate schema.ts parsing.
+ *
+ * `resolvedIds` maps ID-shaped values to the table they belong to (see
+ * `collectIdCandidates`). A field becomes a relation when its values
+ * resolve to a table; the edge's confidence is the share of the field's
+ * sampled values that resolved there.
  */
 export function inferSchemaFromDocs(
   tableName: string,
-  docs: Record<string, unknown>[]
+  docs: Record<string, unknown>[],
+  resolvedIds: Map<string, string> = new Map()
 ): { schema: TableSchema; relations: RelationEdge[] } {
   if (docs.length === 0) {
     return {
@@ -20,10 +36,7 @@ export function inferSchemaFromDocs(
     };
   }
 
-  const fieldMap = new Map<
-    string,
-    { types: Set<string>; presentCount: number }
-  >();
+  const fieldMap = new Map<string, FieldAccumulator>();
 
   for (const doc of docs) {
     flattenDoc(doc, "", fieldMap);
@@ -34,8 +47,15 @@ export function inferSchemaFromDocs(
   const total = docs.length;
 
   for (const [path, stats] of fieldMap) {
-    const types = Array.from(stats.types);
-    const optionalRate = 1 - stats.presentCount / total;
+    const types = describeTypes(path, stats, fieldMap);
+    // Nested fields are optional relative to the objects that could hold
+    // them (e.g. `items[].sku` against every element of `items`)
+    const parent = getParentFieldPath(path);
+    const containers =
+      parent === undefined ? total : fieldMap.get(parent)?.objectCount ?? total;
+    const optionalRate = path.endsWith("[]")
+      ? 0
+      : 1 - stats.presentCount / Math.max(containers, stats.presentCount);
     const confidence = Math.min(stats.presentCount / Math.max(total, 10), 1);
 
     fields.push({
@@ -44,20 +64,13 @@ export function inferSchemaFromDocs(
       optionalRate,
       sampleCount: stats.presentCount,
       confidence,
+      arrayLength: summarizeLengths(stats.arrayLengths),
     });
 
-    // Detect id-like fields that reference other tables
-    if (isIdLikeField(path, types)) {
-      const targetTable = guessTargetTable(path);
-      if (targetTable) {
-        relations.push({
-          fromTable: tableName,
-          fromFieldPath: path,
-          toTable: targetTable,
-          confidence: 0.6,
-          source: "inferred",
-        });
-      }
+    if (path !== "_id") {
+      relations.push(
+        ...inferRelations(tableName, path, stats, resolvedIds)
+      );
     }
   }
 
@@ -81,74 +94,150 @@ export function inferSchemaFromDocs(
   };
 }
 
+interface FieldAccumulator {
+  types: Set<string>;
+  presentCount: number;
+  /** How many of the values were objects, i.e. could hold child fields. */
+  objectCount: number;
+  /** Lengths of the values that were arrays. */
+  arrayLengths: number[];
+  /** Values that look like Convex document IDs. */
+  idValues: string[];
+}
+
+/**
+ * Gather every ID-shaped value in the sampled documents, to be resolved to
+ * their tables before calling `inferSchemaFromDocs`.
+ */
+export function collectIdCandidates(docs: Record<string, unknown>[]): string[] {
+  const fieldMap = new Map<string, FieldAccumulator>();
+  for (const doc of docs) {
+    flattenDoc(doc, "", fieldMap);
+  }
+  const ids = new Set<string>();
+  for (const [path, stats] of fieldMap) {
+    if (path !== "_id") {
+      stats.idValues.forEach((id) => ids.add(id));
+    }
+  }
+  return Array.from(ids);
+}
+
+function inferRelations(
+  tableName: string,
+  path: string,
+  stats: FieldAccumulator,
+  resolvedIds: Map<string, string>
+): RelationEdge[] {
+  const resolvedCounts = new Map<string, number>();
+  for (const id of stats.idValues) {
+    const target = resolvedIds.get(id);
+    if (target) {
+      resolvedCounts.set(target, (resolvedCounts.get(target) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(resolvedCounts, ([toTable, count]) => ({
+    fromTable: tableName,
+    fromFieldPath: path,
+    toTable,
+    confidence: count / stats.presentCount,
+    source: "inferred" as const,
+  }));
+}
+
 function flattenDoc(
   obj: unknown,
   prefix: string,
-  result: Map<string, { types: Set<string>; presentCount: number }>
+  result: Map<string, FieldAccumulator>
 ): void {
   if (obj === null || obj === undefined) {
     return;
   }
 
   if (typeof obj !== "object" || Array.isArray(obj)) {
-    const key = prefix || "(root)";
-    const existing = result.get(key) ?? {
-      types: new Set<string>(),
-      presentCount: 0,
-    };
-    existing.types.add(getTypeName(obj));
-    existing.presentCount++;
-    result.set(key, existing);
+    recordValue(result, prefix || "(root)", obj);
     return;
   }
 
   for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
     const path = prefix ? `${prefix}.${key}` : key;
+    flattenValue(value, path, result);
+  }
+}
 
-    if (value !== null && value !== undefined && typeof value === "object" && !Array.isArray(value)) {
-      // Recurse into nested objects
-      flattenDoc(value, path, result);
-    }
+/**
+ * Record a value and everything inside it: object fields as `path.key`,
+ * array elements as `path[]` (and their fields as `path[].key`).
+ */
+function flattenValue(
+  value: unknown,
+  path: string,
+  result: Map<string, FieldAccumulator>
+): void {
+  recordValue(result, path, value);
 
-    // Also record the field itself
-    const existing = result.get(path) ?? {
-      types: new Set<string>(),
-      presentCount: 0,
-    };
-    existing.types.add(getTypeName(value));
-    existing.presentCount++;
-    result.set(path, existing);
+  if (Array.isArray(value)) {
+    for (const element of value) {
+      flattenValue(element, `${path}[]`, result);
+    }
+  } else if (value !== null && value !== undefined && typeof value === "object") {
+    // Recurse into nested objects
+    flattenDoc(value, path, result);
   }
 }
 
-function getTypeName(value: unknown): string {
-  if (value === null) {return "null";}
-  if (value === undefined) {return "undefined";}
-  if (Array.isArray(value)) {return "array";}
-  return typeof value;
+function recordValue(
+  result: Map<string, FieldAccumulator>,
+  path: string,
+  value: unknown
+): void {
+  const existing = result.get(path) ?? {
+    types: new Set<string>(),
+    presentCount: 0,
+    objectCount: 0,
+    arrayLengths: [],
+    idValues: [],
+  };
+  existing.types.add(getTypeName(value));
+  existing.presentCount++;
+  if (Array.isArray(value)) {
+    existing.arrayLengths.push(value.length);
+  } else if (value !== null && typeof value === "object") {
+    existing.objectCount++;
+  }
+  if (isConvexIdLike(value)) {
+    existing.idValues.push(value);
+  }
+  result.set(path, existing);
 }
 
-function isIdLikeField(path: string, types: string[]): boolean {
-  const leaf = path.split(".").pop() ?? path;
-  return (
-    (leaf.endsWith("Id") || leaf.endsWith("_id")) &&
-    types.some((t) => t === "string")
-  );
+/**
+ * Observed types, with `array` spelled out from its elements (`string[]`,
+ * `(number | null)[]`) so a change inside the elements changes the field.
+ */
+function describeTypes(
+  path: string,
+  stats: FieldAccumulator,
+  fieldMap: Map<string, FieldAccumulator>
+): string[] {
+  const elements = fieldMap.get(`${path}[]`);
+  return Array.from(stats.types, (type) => {
+    if (type !== "array" || !elements) {return type;}
+    const elementTypes = Array.from(elements.types);
+    return elementTypes.length === 1
+      ? `${elementTypes[0]}[]`
+      : `(${elementTypes.join(" | ")})[]`;
+  });
 }
 
-function guessTargetTable(fieldPath: string): string | null {
-  const leaf = fieldPath.split(".").pop() ?? fieldPath;
-  // Remove common suffixes to get table name
-  const cleaned = leaf
-    .replace(/Id$/, "")
-    .replace(/_id$/, "")
-    .replace(/^_/, "");
-
-  if (cleaned.length < 2) {return null;}
-
-  // Pluralize naively for common patterns
-  if (!cleaned.endsWith("s")) {
-    return cleaned + "s";
-  }
-  return cleaned;
+function summarizeLengths(
+  lengths: number[]
+): FieldStat["arrayLength"] {
+  if (lengths.length === 0) {return undefined;}
+  return {
+    min: lengths.reduce((min, n) => Math.min(min, n), Infinity),
+    max: lengths.reduce((max, n) => Math.max(max, n), 0),
+    mean: lengths.reduce((sum, n) => sum + n, 0) / lengths.length,
+  };
 }
@@ -0,0 +1,223 @@
+import * as vscode from "vscode";
+import type {
+  IndexDefinition,
+  SourceLocation,
+  TableSchema,
+} from "../shared/types";
+import type { SchemaParseResult } from "./schemaParser";
+import { SYSTEM_FIELDS } from "./fieldPaths";
+
+/** Built-in tables that `v.id(...)` may point at. */
+const SYSTEM_TABLES = new Set(["_storage", "_scheduled_functions"]);
+
+export interface PendingDiagnostic {
+  location: SourceLocation;
+  message: string;
+  severity: vscode.DiagnosticSeverity;
+  /** Narrow the range to this string literal inside `location`, if found. */
+  literal?: string;
+}
+
+/**
+ * Reports schema-level mistakes (dangling `v.id` targets, bad index
+ * definitions) on the files the schema was parsed from.
+ */
+export class SchemaDiagnostics implements vscode.Disposable {
+  private readonly _collection =
+    vscode.languages.createDiagnosticCollection("exconvex");
+  /** Bumped per update and clear, so a superseded update is dropped. */
+  private _generation = 0;
+
+  async update(result: SchemaParseResult): Promise<void> {
+    const generation = ++this._generation;
+    const pending = [
+      ...checkRelations(result),
+      ...result.tables.flatMap((table) =>
+        checkIndexes(
+          table,
+          result.indexes.filter((i) => i.table === table.table)
+        )
+      ),
+    ];
+
+    // Open each file once per pass to narrow ranges to their literals
+    const files = [...new Set(pending.filter((p) => p.literal).map((p) => p.location.file))];
+    const documents = new Map(
+      await Promise.all(files.map(async (file) => [file, await openDocument(file)] as const))
+    );
+    if (generation !== this._generation) {return;}
+
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+    for (const item of pending) {
+      const range = resolveRange(item, documents.get(item.location.file));
+      const diagnostic = new vscode.Diagnostic(range, item.message, item.severity);
+      diagnostic.source = "ExConvex";
+      const list = byFile.get(item.location.file) ?? [];
+      list.push(diagnostic);
+      byFile.set(item.location.file, list);
+    }
+
+    this._collection.clear();
+    for (const [file, diagnostics] of byFile) {
+      this._collection.set(vscode.Uri.file(file), diagnostics);
+    }
+  }
+
+  clear(): void {
+    this._generation++;
+    this._collection.clear();
+  }
+
+  dispose(): void {
+    this._collection.dispose();
+  }
+}
+
+/** `v.id(...)` calls pointing at tables the schema doesn't define. */
+export function checkRelations(result: SchemaParseResult): PendingDiagnostic[] {
+  const tableNames = new Set(result.tables.map((t) => t.table));
+  const pending: PendingDiagnostic[] = [];
+
+  for (const relation of result.relations) {
+    if (
+      !relation.location ||
+      tableNames.has(relation.toTable) ||
+      SYSTEM_TABLES.has(relation.toTable)
+    ) {
+      continue;
+    }
+    pending.push({
+      location: relation.location,
+      message: `Table "${relation.toTable}" referenced by ${relation.fromTable}.${relation.fromFieldPath} is not defined in the schema.`,
+      severity: vscode.DiagnosticSeverity.Error,
+      literal: relation.toTable,
+    });
+  }
+  return pending;
+}
+
+/**
+ * Duplicate index names, index fields missing from the table, and by_field
+ * indexes made redundant by another.
+ */
+export function checkIndexes(
+  table: TableSchema,
+  indexes: IndexDefinition[]
+): PendingDiagnostic[] {
+  const fieldPaths = new Set(table.fields.map((f) => f.path));
+  const pending: PendingDiagnostic[] = [];
+  const seenNames = new Set<string>();
+
+  for (const index of indexes) {
+    if (!index.location) {continue;}
+
+    if (seenNames.has(index.name)) {
+      pending.push({
+        location: index.location,
+        message: `Duplicate index name "${index.name}" on table "${table.table}".`,
+        severity: vscode.DiagnosticSeverity.Error,
+        literal: index.name,
+      });
+    }
+    seenNames.add(index.name);
+
+    const kind = index.type === "by_field" ? "Index" : `${index.type === "search" ? "Search" : "Vector"} index`;
+    for (const field of index.fields) {
+      if (!fieldPaths.has(field) && !SYSTEM_FIELDS.has(field)) {
+        pending.push({
+          location: index.location,
+          message: `${kind} "${index.name}" references field "${field}", which is not in table "${table.table}".`,
+          severity: vscode.DiagnosticSeverity.Error,
+          literal: field,
+        });
+      }
+    }
+    for (const field of index.filterFields ?? []) {
+      if (!fieldPaths.has(field) && !SYSTEM_FIELDS.has(field)) {
+        pending.push({
+          location: index.location,
+          message: `${kind} "${index.name}" filters on field "${field}", which is not in table "${table.table}".`,
+          severity: vscode.DiagnosticSeverity.Error,
+          literal: field,
+        });
+      }
+    }
+
+    const covering = findCoveringIndex(index, indexes);
+    if (covering) {
+      pending.push({
+        location: index.location,
+        message:
+          covering.fields.length === index.fields.length
+            ? `Index "${index.name}" has the same fields as "${covering.name}".`
+            : `Index "${index.name}" is a prefix of "${covering.name}" and is likely redundant.`,
+        severity: vscode.DiagnosticSeverity.Warning,
+        literal: index.name,
+      });
+    }
+  }
+  return pending;
+}
+
+/**
+ * Another by_field index whose fields start with all of `index`'s fields.
+ * For identical field lists only the later index is reported.
+ */
+export function findCoveringIndex(
+  index: IndexDefinition,
+  indexes: IndexDefinition[]
+): IndexDefinition | undefined {
+  if (index.type !== "by_field" || index.fields.length === 0) {return undefined;}
+  const position = indexes.indexOf(index);
+
+  return indexes.find((other, i) => {
+    if (
+      other === index ||
+      other.type !== "by_field" ||
+      other.name === index.name ||
+      other.fields.length < index.fields.length
+    ) {
+      return false;
+    }
+    if (other.fields.length === index.fields.length && i > position) {
+      return false;
+    }
+    return index.fields.every((f, j) => other.fields[j] === f);
+  });
+}
+
+async function openDocument(file: string): Promise<vscode.TextDocument | undefined> {
+  try {
+    return await vscode.workspace.openTextDocument(vscode.Uri.file(file));
+  } catch {
+    // File is gone — diagnostics fall back to the recorded range
+    return undefined;
+  }
+}
+
+function resolveRange(
+  item: PendingDiagnostic,
+  document: vscode.TextDocument | undefined
+): vscode.Range {
+  const { location } = item;
+  const range = new vscode.Range(
+    location.line,
+    location.column,
+    location.endLine,
+    location.endColumn
+  );
+  if (!item.literal || !document) {return range;}
+
+  const text = document.getText(range);
+  const start = document.offsetAt(range.start);
+  for (const quote of ['"', "'", "`"]) {
+    const offset = text.indexOf(`${quote}${item.literal}${quote}`);
+    if (offset >= 0) {
+      return new vscode.Range(
+        document.positionAt(start + offset),
+        document.positionAt(start + offset + item.literal.length + 2)
+      );
+    }
+  }
+  return range;
+}
@@ -0,0 +1,122 @@
+import * as vscode from "vscode";
+import type { TableSchema } from "../shared/types";
+
+/**
+ * Add or replace a table in the schema file's `defineSchema({...})`.
+ * An existing table's `defineTable(...)` call is replaced in place;
+ * otherwise the table is appended after the last table declared in that
+ * file. Returns false when no safe place to put it was found.
+ */
+export async function insertTableDefinition(
+  schemaFile: string,
+  tableName: string,
+  code: string,
+  tables: TableSchema[]
+): Promise<boolean> {
+  const uri = vscode.Uri.file(schemaFile);
+  const document = await vscode.workspace.openTextDocument(uri);
+  const key = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(tableName)
+    ? tableName
+    : JSON.stringify(tableName);
+  const edit = new vscode.WorkspaceEdit();
+  let selection: vscode.Position | undefined;
+
+  const declared = tables.filter((t) => t.location?.file === uri.fsPath);
+  const existing = declared.find((t) => t.table === tableName);
+
+  if (existing?.location) {
+    // Swap the `defineTable(...)` call and keep any index chain after it
+    const { line, column, endLine, endColumn } = existing.location;
+    const start = document.offsetAt(new vscode.Position(line, column));
+    const text = document.getText(new vscode.Range(line, column, endLine, endColumn));
+    const call = /defineTable\s*\(/.exec(text);
+    const callEnd = call ? findClosingParen(text, call.index + call[0].length) : -1;
+    if (!call || callEnd < 0) {
+      return false;
+    }
+    const range = new vscode.Range(
+      document.positionAt(start + call.index),
+      document.positionAt(start + callEnd + 1)
+    );
+    edit.replace(uri, range, indent(code, " ".repeat(column)));
+    selection = range.start;
+  } else if (declared.length > 0) {
+    const last = declared.reduce((a, b) =>
+      a.location!.endLine * 1e6 + a.location!.endColumn >=
+      b.location!.endLine * 1e6 + b.location!.endColumn ? a : b
+    ).location!;
+    const padding = " ".repeat(last.column);
+    let offset = document.offsetAt(new vscode.Position(last.endLine, last.endColumn));
+    // Step over a trailing comma so we don't produce `,,`
+    const rest = document.getText().slice(offset);
+    const comma = rest.match(/^\s*,/);
+    if (comma) {
+      offset += comma[0].length;
+    }
+    const position = document.positionAt(offset);
+    edit.insert(
+      uri,
+      position,
+      `${comma ? "" : ","}\n${padding}${key}: ${indent(code, padding)}${comma ? "," : ""}`
+    );
+    selection = position.translate(1, 0);
+  } else {
+    const match = /defineSchema\s*\(\s*\{/.exec(document.getText());
+    if (!match) {
+      return false;
+    }
+    const position = document.positionAt(match.index + match[0].length);
+    edit.insert(uri, position, `\n  ${key}: ${indent(code, "  ")},`);
+    selection = position.translate(1, 0);
+  }
+
+  if (!(await vscode.workspace.applyEdit(edit))) {
+    return false;
+  }
+  await vscode.window.showTextDocument(document, {
+    selection: selection ? new vscode.Range(selection, selection) : undefined,
+  });
+  return true;
+}
+
+/** Indent every line after the first. */
+function indent(code: string, padding: string): string {
+  return code.replace(/\n/g, `\n${padding}`);
+}
+
+/**
+ * Offset of the `)` closing the call whose arguments start at `from`,
+ * skipping over string literals and comments. -1 if unbalanced.
+ */
+function findClosingParen(text: string, from: number): number {
+  let depth = 1;
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"' || char === "'" || char === "`") {
+      i = skipString(text, i);
+    } else if (text.startsWith("//", i)) {
+      i = text.indexOf("\n", i);
+      if (i < 0) {return -1;}
+    } else if (text.startsWith("/*", i)) {
+      i = text.indexOf("*/", i) + 1;
+      if (i <= 0) {return -1;}
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")" && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function skipString(text: string, start: number): number {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text[i] === quote) {
+      return i;
+    }
+  }
+  return text.length;
+}
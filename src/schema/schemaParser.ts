@@ -1,359 +1,1017 @@
 import * as vscode from "vscode";
+import * as path from "path";
+import {
+  Node,
+  Project,
+  ts,
+  type CallExpression,
+  type Expression,
+  type ObjectLiteralExpression,
+  type SourceFile,
+  type SpreadAssignment,
+} from "ts-morph";
 import type {
   TableSchema,
   FieldStat,
   RelationEdge,
   IndexDefinition,
+  SourceLocation,
+  TableOrigin,
+  ValidatorField,
+  ValidatorNode,
 } from "../shared/types";
 import { findSchemaFile as findSchemaFileShared } from "../convexProject";
+import {
+  containsUnknown,
+  describeValidator,
+  flattenValidatorFields,
+  mergeUnionFields,
+} from "./validators";
+import { KNOWN_LIBRARY_TABLES } from "./knownLibraries";
+import { getParentFieldPath } from "./fieldPaths";
+
+/** Path prefix of the in-memory files holding known library tables. */
+const KNOWN_LIBRARY_ROOT = "/__exconvex__/known";
+
+/** `v.id(...)` call each parsed id validator came from, for locations. */
+const idValidatorSources = new WeakMap<ValidatorNode, Node>();
+
+/** Property each parsed document field was declared by, for locations. */
+const fieldSources = new WeakMap<ValidatorNode, Node>();
+
+interface ParseResult {
+  tables: TableSchema[];
+  indexes: IndexDefinition[];
+  relations: RelationEdge[];
+}
+
+export interface SchemaParseResult extends ParseResult {
+  /** The schema file itself; undefined when the project has none. */
+  schemaFile?: string;
+  /** Every project file the schema was read from, for change watching. */
+  sourceFiles: string[];
+}
 
 /**
  * Parse convex/schema.ts to extract table definitions, field types,
- * and index definitions using regex-based heuristics.
+ * and index definitions by walking the TypeScript AST with ts-morph.
  *
  * Supports:
  *  - Root-level convex/schema.ts
  *  - Monorepo nested paths (e.g., packages/convex/convex/schema.ts)
- *  - Split schema files (imports from ./schemas/ directory)
- *  - Custom validator references (resolves to the validator name)
+ *  - Split schema files (tables imported from other modules)
+ *  - Shared validators imported via relative paths or tsconfig `paths`
+ *  - Spread fields (`...sharedFields`) inside `defineTable` and `v.object`
+ *  - Spread table maps (`...authTables`), including library packages
+ *  - Nested validators (objects, arrays, unions, optionals, records)
+ *  - Index, search index and vector index chains
+ *
+ * Unsaved editor changes are parsed instead of the file on disk.
  */
-export async function parseConvexSchema(): Promise<{
-  tables: TableSchema[];
-  indexes: IndexDefinition[];
-  relations: RelationEdge[];
-}> {
+export async function parseConvexSchema(): Promise<SchemaParseResult> {
   const schemaFile = await findSchemaFileShared();
   if (!schemaFile) {
     console.log("[ExConvex] No convex/schema.ts found in workspace");
-    return { tables: [], indexes: [], relations: [] };
+    return { tables: [], indexes: [], relations: [], sourceFiles: [] };
   }
 
   console.log(`[ExConvex] Found schema at: ${schemaFile.fsPath}`);
 
   const schemaContent = await readFileContent(schemaFile);
   if (!schemaContent) {
-    return { tables: [], indexes: [], relations: [] };
+    return {
+      tables: [],
+      indexes: [],
+      relations: [],
+      schemaFile: schemaFile.fsPath,
+      sourceFiles: [schemaFile.fsPath],
+    };
   }
 
-  // Collect all source content: the main schema file + any imported files
-  const allSources = await collectAllSources(schemaFile, schemaContent);
+  const project = createProject(schemaFile.fsPath);
+  addUnsavedDocuments(project);
+  const sourceFile = project.createSourceFile(schemaFile.fsPath, schemaContent, {
+    overwrite: true,
+  });
+
+  // Collect all source files: the main schema file + any imported files
+  const allSources = collectAllSources(project, sourceFile);
   console.log(
     `[ExConvex] Parsing ${allSources.length} source file(s) for table definitions`
   );
 
-  const tables: TableSchema[] = [];
-  const indexes: IndexDefinition[] = [];
-  const relations: RelationEdge[] = [];
-
-  for (const source of allSources) {
-    const result = parseSourceFile(source);
-    tables.push(...result.tables);
-    indexes.push(...result.indexes);
-    relations.push(...result.relations);
-  }
+  const result = parseSchemaSourceFile(sourceFile, allSources);
 
   console.log(
-    `[ExConvex] Parsed ${tables.length} tables, ${indexes.length} indexes, ${relations.length} relations`
+    `[ExConvex] Parsed ${result.tables.length} tables, ${result.indexes.length} indexes, ${result.relations.length} relations`
   );
 
-  return { tables, indexes, relations };
+  return {
+    ...result,
+    schemaFile: schemaFile.fsPath,
+    sourceFiles: allSources.map((f) => f.getFilePath()),
+  };
+}
+
+/**
+ * Parse a schema whose files are read through `readSource` instead of the
+ * workspace, e.g. as of a git revision. `prefetch` lists files to load up
+ * front so imports of files missing from disk still resolve. Imported
+ * files are read the same way; ones `readSource` doesn't know about are
+ * treated as empty. tsconfig.json path aliases are read through
+ * `readSource` too.
+ */
+export async function parseSchemaFromSources(
+  schemaPath: string,
+  readSource: (filePath: string) => Promise<string | undefined>,
+  prefetch: string[] = []
+): Promise<SchemaParseResult> {
+  const schemaContent = await readSource(schemaPath);
+  if (schemaContent === undefined) {
+    return { tables: [], indexes: [], relations: [], sourceFiles: [] };
+  }
+
+  const configFiles = await readConfigFiles(path.dirname(schemaPath), readSource);
+  const project = createProject(schemaPath, {
+    fileExists: (filePath) => configFiles.has(path.resolve(filePath)),
+    readFile: (filePath) => configFiles.get(path.resolve(filePath)),
+  });
+  const overlaid = new Set<string>();
+  for (const filePath of prefetch) {
+    const content = await readSource(filePath);
+    if (content !== undefined) {
+      overlaid.add(project.createSourceFile(filePath, content, { overwrite: true }).getFilePath());
+    }
+  }
+  const sourceFile = project.createSourceFile(schemaPath, schemaContent, {
+    overwrite: true,
+  });
+  overlaid.add(sourceFile.getFilePath());
+
+  // Replacing a file's text can pull in new imports; repeat until settled
+  let allSources = collectAllSources(project, sourceFile);
+  for (;;) {
+    const pending = allSources.filter((f) => !overlaid.has(f.getFilePath()));
+    if (pending.length === 0) {break;}
+    for (const file of pending) {
+      overlaid.add(file.getFilePath());
+      file.replaceWithText((await readSource(file.getFilePath())) ?? "");
+    }
+    allSources = collectAllSources(project, sourceFile);
+  }
+
+  return {
+    ...parseSchemaSourceFile(sourceFile, allSources),
+    schemaFile: schemaPath,
+    sourceFiles: allSources.map((f) => f.getFilePath()),
+  };
+}
+
+/**
+ * Load the text of dirty editors into the project so imported files are
+ * parsed as currently typed rather than as last saved.
+ */
+function addUnsavedDocuments(project: Project): void {
+  for (const document of vscode.workspace.textDocuments) {
+    if (
+      document.isDirty &&
+      document.uri.scheme === "file" &&
+      /\.[cm]?[jt]sx?$/.test(document.uri.fsPath)
+    ) {
+      project.createSourceFile(document.uri.fsPath, document.getText(), {
+        overwrite: true,
+      });
+    }
+  }
+}
+
+type ConfigReader = Pick<ts.System, "fileExists" | "readFile">;
+
+function createProject(schemaPath: string, configReader: ConfigReader = ts.sys): Project {
+  return new Project({
+    skipAddingFilesFromTsConfig: true,
+    skipLoadingLibFiles: true,
+    compilerOptions: {
+      ...loadPathMappings(path.dirname(schemaPath), configReader),
+      allowJs: true,
+      noEmit: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+    },
+  });
+}
+
+/**
+ * Read `baseUrl`/`paths` from the nearest tsconfig.json that declares them,
+ * walking up from the schema directory, so aliased imports such as
+ * `@/shared/validators` resolve the same way they do in the user's build.
+ */
+function loadPathMappings(startDir: string, reader: ConfigReader): ts.CompilerOptions {
+  // Only the options are needed; skip enumerating the project's files
+  const host: ts.ParseConfigHost = {
+    useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+    fileExists: reader.fileExists,
+    readFile: reader.readFile,
+    readDirectory: () => [],
+  };
+  let dir = startDir;
+
+  for (;;) {
+    const configPath = ts.findConfigFile(dir, reader.fileExists);
+    if (!configPath) {
+      return {};
+    }
+
+    const configDir = path.dirname(configPath);
+    const { config } = ts.readConfigFile(configPath, reader.readFile);
+    const { options } = ts.parseJsonConfigFileContent(config ?? {}, host, configDir);
+    if (options.paths || options.baseUrl) {
+      return {
+        baseUrl: options.baseUrl,
+        paths: options.paths,
+        pathsBasePath: options.pathsBasePath,
+      };
+    }
+
+    const parentDir = path.dirname(configDir);
+    if (parentDir === configDir) {
+      return {};
+    }
+    dir = parentDir;
+  }
+}
+
+/**
+ * Read every tsconfig.json from `startDir` up to the root, and the local
+ * files they extend, keyed by resolved path, for `loadPathMappings`.
+ */
+async function readConfigFiles(
+  startDir: string,
+  readSource: (filePath: string) => Promise<string | undefined>
+): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+  const read = async (configPath: string): Promise<void> => {
+    const resolved = path.resolve(configPath);
+    if (files.has(resolved)) {return;}
+    const content = await readSource(resolved);
+    if (content === undefined) {return;}
+    files.set(resolved, content);
+
+    const { config } = ts.parseConfigFileTextToJson(resolved, content);
+    const extended: unknown[] = [config?.extends ?? []].flat();
+    for (const base of extended) {
+      // Package configs (e.g. @tsconfig/node20) don't declare paths
+      if (typeof base === "string" && base.startsWith(".")) {
+        const basePath = path.resolve(path.dirname(resolved), base);
+        await read(basePath.endsWith(".json") ? basePath : `${basePath}.json`);
+      }
+    }
+  };
+
+  let dir = path.resolve(startDir);
+  for (;;) {
+    await read(path.join(dir, "tsconfig.json"));
+    const parentDir = path.dirname(dir);
+    if (parentDir === dir) {return files;}
+    dir = parentDir;
+  }
+}
+
+/**
+ * Collect the schema source file plus every project file it imports,
+ * directly or through barrel re-exports. Files under node_modules and
+ * declaration files are left out.
+ */
+function collectAllSources(
+  project: Project,
+  schemaFile: SourceFile
+): SourceFile[] {
+  project.resolveSourceFileDependencies();
+
+  const visited = new Set<SourceFile>();
+  const queue = [schemaFile];
+
+  while (queue.length > 0) {
+    const file = queue.shift()!;
+    if (visited.has(file)) {
+      continue;
+    }
+    visited.add(file);
+
+    for (const referenced of file.getReferencedSourceFiles()) {
+      if (!referenced.isInNodeModules() && !referenced.isDeclarationFile()) {
+        queue.push(referenced);
+      }
+    }
+  }
+
+  return Array.from(visited);
 }
 
 /**
- * Collect the schema file content plus any locally imported files.
- * Follows relative imports like `from "./schemas"` or `from "./schemas/users"`.
+ * Extract tables, indexes and relations from the `defineSchema({...})` call
+ * of the schema file. When no `defineSchema` call is present, falls back to
+ * any named `defineTable(...)` declaration found in the collected sources.
  */
-async function collectAllSources(
-  schemaUri: vscode.Uri,
-  schemaContent: string
-): Promise<string[]> {
-  const sources: string[] = [schemaContent];
-  const schemaDir = vscode.Uri.joinPath(schemaUri, "..");
-
-  // Find relative imports: import { ... } from "./something"
-  const importPattern =
-    /from\s+["']\.\/([^"']+)["']/g;
-  let match: RegExpExecArray | null;
-  const importPaths = new Set<string>();
-
-  while ((match = importPattern.exec(schemaContent)) !== null) {
-    importPaths.add(match[1]);
-  }
-
-  for (const importPath of importPaths) {
-    // Try the import as a directory (index.ts) or as a file
-    const candidates = [
-      vscode.Uri.joinPath(schemaDir, importPath, "index.ts"),
-      vscode.Uri.joinPath(schemaDir, importPath, "index.js"),
-      vscode.Uri.joinPath(schemaDir, `${importPath}.ts`),
-      vscode.Uri.joinPath(schemaDir, `${importPath}.js`),
-    ];
-
-    for (const candidate of candidates) {
-      const content = await readFileContent(candidate);
-      if (content) {
-        // If this is an index file that re-exports, follow those too
-        const reExports = await followReExports(candidate, content);
-        sources.push(...reExports);
-        break;
+function parseSchemaSourceFile(
+  schemaFile: SourceFile,
+  allSources: SourceFile[]
+): ParseResult {
+  const result: ParseResult = { tables: [], indexes: [], relations: [] };
+
+  const schemaCall = schemaFile
+    .getDescendantsOfKind(ts.SyntaxKind.CallExpression)
+    .find((call) => getCalleeName(call) === "defineSchema");
+  const tablesArg = schemaCall?.getArguments()[0];
+  const tablesObject = tablesArg ? resolveExpression(tablesArg) : undefined;
+
+  if (tablesObject && Node.isObjectLiteralExpression(tablesObject)) {
+    addTablesFromObject(tablesObject, result);
+    return result;
+  }
+
+  for (const source of allSources) {
+    for (const call of source.getDescendantsOfKind(ts.SyntaxKind.CallExpression)) {
+      if (getCalleeName(call) !== "defineTable") {
+        continue;
+      }
+      const top = getChainTop(call);
+      const parent = top.getParent();
+      if (
+        (Node.isPropertyAssignment(parent) || Node.isVariableDeclaration(parent)) &&
+        !result.tables.some((t) => t.table === parent.getName())
+      ) {
+        addTable(parent.getName(), top, result, undefined, parent);
       }
     }
   }
 
-  return sources;
+  return result;
 }
 
 /**
- * Follow re-export patterns in barrel files.
- * e.g., export { users } from "./users"
+ * Add every table of a table map object. Spread elements
+ * (`...authTables`, `...billingTables`) are expanded and their tables are
+ * tagged with where they came from.
  */
-async function followReExports(
-  indexUri: vscode.Uri,
-  indexContent: string
-): Promise<string[]> {
-  const sources: string[] = [];
-  const dir = vscode.Uri.joinPath(indexUri, "..");
-
-  const reExportPattern =
-    /(?:export\s+\{[^}]*\}\s+from|export\s+\*\s+from)\s+["']\.\/([^"']+)["']/g;
-  let match: RegExpExecArray | null;
-
-  while ((match = reExportPattern.exec(indexContent)) !== null) {
-    const moduleName = match[1];
-    const candidates = [
-      vscode.Uri.joinPath(dir, `${moduleName}.ts`),
-      vscode.Uri.joinPath(dir, `${moduleName}.js`),
-      vscode.Uri.joinPath(dir, moduleName, "index.ts"),
-    ];
-
-    for (const candidate of candidates) {
-      const content = await readFileContent(candidate);
-      if (content) {
-        sources.push(content);
-        break;
+function addTablesFromObject(
+  object: ObjectLiteralExpression,
+  result: ParseResult,
+  origin?: TableOrigin,
+  depth = 0
+): void {
+  for (const property of object.getProperties()) {
+    if (Node.isSpreadAssignment(property)) {
+      const spread = resolveSpreadTables(property);
+      if (spread && depth < 10) {
+        addTablesFromObject(spread.object, result, origin ?? spread.origin, depth + 1);
       }
+      continue;
+    }
+
+    const name = getPropertyName(property);
+    const value = getPropertyValue(property);
+    if (name && value) {
+      addTable(name, value, result, origin, property);
     }
   }
+}
 
-  // If no re-exports found, the index file itself may contain definitions
-  if (sources.length === 0) {
-    sources.push(indexContent);
+/**
+ * Resolve the table map behind a spread in `defineSchema`. Project maps
+ * resolve through their declaration; package maps resolve to the package's
+ * JavaScript build, and finally to the built-in copies of well-known
+ * library tables.
+ */
+function resolveSpreadTables(
+  spread: SpreadAssignment
+): { object: ObjectLiteralExpression; origin: TableOrigin } | null {
+  const expression = spread.getExpression();
+  const declaration = getDeclaration(
+    Node.isPropertyAccessExpression(expression) ? expression.getNameNode() : expression
+  );
+  const exportName = Node.isPropertyAccessExpression(expression)
+    ? expression.getName()
+    : expression.getText();
+  const module = getImportModule(expression);
+
+  const resolved = resolveExpression(expression);
+  if (Node.isObjectLiteralExpression(resolved)) {
+    return {
+      object: resolved,
+      origin: { exportName, module, library: resolved.getSourceFile().isInNodeModules() },
+    };
   }
 
-  return sources;
+  const fromPackage = declaration ? resolvePackageExport(declaration) : undefined;
+  if (fromPackage) {
+    return { object: fromPackage, origin: { exportName, module, library: true } };
+  }
+
+  const known = module ? resolveKnownLibrary(spread.getProject(), module, exportName) : undefined;
+  if (known) {
+    return { object: known, origin: { exportName, module, library: true } };
+  }
+
+  return null;
 }
 
 /**
- * Parse a single source file for defineTable definitions, indexes, and relations.
+ * For a declaration found in a package's `.d.ts`, load the sibling
+ * JavaScript file and return the object literal the export is set to.
  */
-function parseSourceFile(content: string): {
-  tables: TableSchema[];
-  indexes: IndexDefinition[];
-  relations: RelationEdge[];
-} {
-  const tables: TableSchema[] = [];
-  const indexes: IndexDefinition[] = [];
-  const relations: RelationEdge[] = [];
-
-  // Match both patterns:
-  //   tableName: defineTable({ ... })           (inline in schema.ts)
-  //   export const tableName = defineTable({ ... })  (split files)
-  const tablePattern =
-    /(?:(\w+)\s*:\s*defineTable|export\s+const\s+(\w+)\s*=\s*defineTable)\s*\(\s*\{([\s\S]*?)\}\s*\)/g;
-  let tableMatch: RegExpExecArray | null;
-
-  while ((tableMatch = tablePattern.exec(content)) !== null) {
-    const tableName = tableMatch[1] ?? tableMatch[2];
-    const fieldsBlock = tableMatch[3];
-
-    const fields = parseFields(fieldsBlock);
-    const tableRelations = extractRelations(tableName, fieldsBlock);
-
-    tables.push({
-      table: tableName,
-      fields,
-      sampledDocs: 0,
-      inferredAt: Date.now(),
-    });
-
-    relations.push(...tableRelations);
-
-    // Extract indexes chained after the defineTable call
-    const tableIndexes = extractIndexes(
-      tableName,
-      content,
-      tableMatch.index
-    );
-    indexes.push(...tableIndexes);
+function resolvePackageExport(
+  declaration: Node
+): ObjectLiteralExpression | undefined {
+  const declarationFile = declaration.getSourceFile();
+  if (!declarationFile.isDeclarationFile() || !Node.isVariableDeclaration(declaration)) {
+    return undefined;
   }
 
-  return { tables, indexes, relations };
+  const basePath = declarationFile.getFilePath().replace(/\.d\.[mc]?ts$/, "");
+  const project = declaration.getProject();
+  for (const extension of [".js", ".mjs", ".cjs"]) {
+    const jsFile = project.addSourceFileAtPathIfExists(basePath + extension);
+    const exported = jsFile
+      ?.getExportedDeclarations()
+      .get(declaration.getName())?.[0];
+    const initializer = exported ? getInitializer(exported) : undefined;
+    const resolved = initializer ? resolveExpression(initializer) : undefined;
+    if (resolved && Node.isObjectLiteralExpression(resolved)) {
+      return resolved;
+    }
+  }
+  return undefined;
 }
 
-function parseFields(fieldsBlock: string): FieldStat[] {
-  const fields: FieldStat[] = [];
+function resolveKnownLibrary(
+  project: Project,
+  module: string,
+  exportName: string
+): ObjectLiteralExpression | undefined {
+  const source = KNOWN_LIBRARY_TABLES[module]?.[exportName];
+  if (!source) {
+    return undefined;
+  }
 
-  // Match field: v.type(...) or field: someValidator patterns
-  const fieldPattern =
-    /(\w+)\s*:\s*(?:v\.(\w+)\s*\(([^)]*(?:\([^)]*\))*[^)]*)\)|(\w+Validator|\w+Status\w*|\w+Type\w*|\w+Role\w*))/g;
-  let fieldMatch: RegExpExecArray | null;
+  const filePath = `${KNOWN_LIBRARY_ROOT}/${module.replace(/[^\w]+/g, "_")}_${exportName}.ts`;
+  const file = project.createSourceFile(filePath, source, { overwrite: true });
+  const initializer = file.getVariableDeclaration(exportName)?.getInitializer();
+  return initializer && Node.isObjectLiteralExpression(initializer) ? initializer : undefined;
+}
 
-  while ((fieldMatch = fieldPattern.exec(fieldsBlock)) !== null) {
-    const fieldName = fieldMatch[1];
-    const validatorType = fieldMatch[2];
-    const validatorArg = fieldMatch[3]?.trim() ?? "";
-    const customValidator = fieldMatch[4];
+/**
+ * Module specifier an identifier (or `namespace.member`) was imported from.
+ */
+function getImportModule(expression: Node): string | undefined {
+  const identifier = Node.isPropertyAccessExpression(expression)
+    ? expression.getExpression()
+    : expression;
+  const declaration = identifier.getSymbol()?.getDeclarations()[0];
+  const importDeclaration = declaration?.getFirstAncestorByKind(
+    ts.SyntaxKind.ImportDeclaration
+  );
+  return importDeclaration?.getModuleSpecifierValue();
+}
 
-    if (validatorType) {
-      const types = resolveValidatorType(validatorType, validatorArg);
-      const isOptional = validatorType === "optional";
+/**
+ * Parse a `defineTable(...)` expression (with its index chain) and append
+ * the table, its indexes and its relations to the result. A table declared
+ * again later in the map replaces the earlier definition, as in JavaScript.
+ */
+function addTable(
+  name: string,
+  expression: Node,
+  result: ParseResult,
+  origin?: TableOrigin,
+  definition: Node = expression
+): void {
+  const chain = unwrapTableChain(expression);
+  if (!chain) {
+    return;
+  }
 
-      fields.push({
-        path: fieldName,
-        types,
-        optionalRate: isOptional ? 1 : 0,
-        sampleCount: 0,
+  const documentArg = chain.defineTable.getArguments()[0];
+  const fields = documentArg ? parseDocumentFields(documentArg) : [];
+  const flattened = flattenValidatorFields(fields);
+
+  result.tables = result.tables.filter((t) => t.table !== name);
+  result.indexes = result.indexes.filter((i) => i.table !== name);
+  result.relations = result.relations.filter((r) => r.fromTable !== name);
+
+  // Array elements and merged union fields have no property of their own
+  // and point at the closest parent that does, or the table itself.
+  const tableLocation = toLocation(definition);
+  const fieldLocations = new Map<string, SourceLocation | undefined>();
+  for (const field of flattened) {
+    const source = fieldSources.get(field.validator);
+    const parent = getParentFieldPath(field.path);
+    fieldLocations.set(
+      field.path,
+      source
+        ? toLocation(source)
+        : parent !== undefined ? fieldLocations.get(parent) : tableLocation
+    );
+  }
+
+  result.tables.push({
+    table: name,
+    fields: flattened.map((f) => ({
+      ...toFieldStat(f.path, f.validator),
+      location: fieldLocations.get(f.path),
+    })),
+    sampledDocs: 0,
+    inferredAt: Date.now(),
+    origin,
+    location: tableLocation,
+    source: "declared",
+  });
+
+  for (const field of flattened) {
+    for (const idValidator of getDirectIdValidators(field.validator)) {
+      const source = idValidatorSources.get(idValidator);
+      result.relations.push({
+        fromTable: name,
+        fromFieldPath: field.path,
+        toTable: idValidator.table!,
         confidence: 1.0,
-      });
-    } else if (customValidator) {
-      // Custom validator reference (e.g., userRoleValidator)
-      fields.push({
-        path: fieldName,
-        types: [customValidator.replace(/Validator$/, "")],
-        optionalRate: 0,
-        sampleCount: 0,
-        confidence: 0.8,
+        source: "inferred",
+        location: source ? toLocation(source) : undefined,
       });
     }
   }
 
-  return fields;
+  for (const call of chain.indexCalls) {
+    const index = parseIndexCall(name, call);
+    if (index) {
+      result.indexes.push(index);
+    }
+  }
 }
 
-function resolveValidatorType(
-  validatorType: string,
-  validatorArg: string
-): string[] {
-  switch (validatorType) {
+/**
+ * Walk down a `defineTable(...).index(...).searchIndex(...)` chain.
+ * Returns the `defineTable` call and the chained index calls in source order.
+ */
+function unwrapTableChain(
+  expression: Node
+): { defineTable: CallExpression; indexCalls: CallExpression[] } | null {
+  const indexCalls: CallExpression[] = [];
+  let current: Node | undefined = resolveExpression(expression);
+
+  while (current && Node.isCallExpression(current)) {
+    if (getCalleeName(current) === "defineTable") {
+      return { defineTable: current, indexCalls: indexCalls.reverse() };
+    }
+
+    const callee = current.getExpression();
+    if (!Node.isPropertyAccessExpression(callee)) {
+      return null;
+    }
+    indexCalls.push(current);
+    current = resolveExpression(callee.getExpression());
+  }
+
+  return null;
+}
+
+/**
+ * Walk up from a call to the outermost call of its method chain.
+ */
+function getChainTop(call: CallExpression): Node {
+  let current: Node = call;
+  for (;;) {
+    const access = current.getParent();
+    if (!Node.isPropertyAccessExpression(access) || access.getExpression() !== current) {
+      return current;
+    }
+    const outer = access.getParent();
+    if (!Node.isCallExpression(outer) || outer.getExpression() !== access) {
+      return current;
+    }
+    current = outer;
+  }
+}
+
+function parseIndexCall(
+  tableName: string,
+  call: CallExpression
+): IndexDefinition | null {
+  const callee = call.getExpression();
+  if (!Node.isPropertyAccessExpression(callee)) {
+    return null;
+  }
+
+  const [nameArg, configArg] = call.getArguments();
+  const name = nameArg ? resolveString(nameArg) : undefined;
+  if (!name || !configArg) {
+    return null;
+  }
+  const config = resolveExpression(configArg);
+  const location = toLocation(callee.getNameNode(), call);
+
+  switch (callee.getName()) {
+    case "index": {
+      // .index("name", ["a", "b"]) or .index("name", { fields: ["a", "b"] })
+      const fieldsNode = Node.isObjectLiteralExpression(config)
+        ? getObjectProperty(config, "fields")
+        : config;
+      const fields = fieldsNode ? resolveStringArray(fieldsNode) : [];
+      return { table: tableName, name, fields, type: "by_field", location };
+    }
+    case "searchIndex":
+    case "vectorIndex": {
+      if (!Node.isObjectLiteralExpression(config)) {
+        return null;
+      }
+      const type = callee.getName() === "searchIndex" ? "search" : "vector";
+      const fieldNode = getObjectProperty(
+        config,
+        type === "search" ? "searchField" : "vectorField"
+      );
+      const field = fieldNode ? resolveString(fieldNode) : undefined;
+      const filterFieldsNode = getObjectProperty(config, "filterFields");
+      return {
+        table: tableName,
+        name,
+        fields: field ? [field] : [],
+        type,
+        filterFields: filterFieldsNode ? resolveStringArray(filterFieldsNode) : [],
+        location,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse the document argument of `defineTable`: either an object of
+ * validators or a `v.object(...)` / `v.union(...)` validator.
+ */
+function parseDocumentFields(argument: Node): ValidatorField[] {
+  const resolved = resolveExpression(argument);
+  if (Node.isObjectLiteralExpression(resolved)) {
+    return parseObjectFields(resolved);
+  }
+
+  const validator = parseValidator(resolved);
+  if (validator.kind === "object") {
+    return validator.fields ?? [];
+  }
+  if (validator.kind === "union") {
+    return mergeUnionFields(validator.members ?? []);
+  }
+  return [];
+}
+
+/**
+ * Parse the properties of an object of validators. Spread elements
+ * (`...sharedFields`, `...addressValidator.fields`) are expanded in place;
+ * later keys override earlier ones, as they would at runtime.
+ */
+function parseObjectFields(
+  object: ObjectLiteralExpression,
+  depth = 0
+): ValidatorField[] {
+  const fields = new Map<string, ValidatorNode>();
+  for (const property of object.getProperties()) {
+    if (Node.isSpreadAssignment(property)) {
+      const spread = resolveExpression(property.getExpression());
+      if (Node.isObjectLiteralExpression(spread) && depth < 10) {
+        for (const field of parseObjectFields(spread, depth + 1)) {
+          fields.set(field.name, field.validator);
+        }
+      }
+      continue;
+    }
+
+    const name = getPropertyName(property);
+    const value = getPropertyValue(property);
+    if (name && value) {
+      const validator = parseValidator(value);
+      fieldSources.set(validator, property);
+      fields.set(name, validator);
+    }
+  }
+  return Array.from(fields, ([name, validator]) => ({ name, validator }));
+}
+
+/**
+ * Turn a `v.*(...)` expression into a validator tree. Identifiers are
+ * resolved to their declarations; anything else becomes an "unknown" node
+ * carrying its source text.
+ */
+function parseValidator(expression: Node): ValidatorNode {
+  const resolved = resolveExpression(expression);
+  const unknown: ValidatorNode = {
+    kind: "unknown",
+    optional: false,
+    reference: expression.getText(),
+  };
+
+  if (!Node.isCallExpression(resolved)) {
+    return unknown;
+  }
+
+  const callee = resolved.getExpression();
+  if (!Node.isPropertyAccessExpression(callee)) {
+    return unknown;
+  }
+
+  const args = resolved.getArguments();
+  switch (callee.getName()) {
     case "string":
-      return ["string"];
+      return { kind: "string", optional: false };
     case "number":
     case "float64":
+      return { kind: "float64", optional: false };
     case "int64":
-      return ["number"];
+    case "bigint":
+      return { kind: "int64", optional: false };
     case "boolean":
-      return ["boolean"];
-    case "id":
-      return [`Id<${validatorArg.replace(/["']/g, "")}>`];
+      return { kind: "boolean", optional: false };
+    case "null":
+      return { kind: "null", optional: false };
+    case "bytes":
+      return { kind: "bytes", optional: false };
+    case "any":
+      return { kind: "any", optional: false };
+    case "id": {
+      const table = args[0] ? resolveString(args[0]) : undefined;
+      if (!table) {
+        return unknown;
+      }
+      const id: ValidatorNode = { kind: "id", optional: false, table };
+      idValidatorSources.set(id, resolved);
+      return id;
+    }
+    case "literal": {
+      const value = args[0] ? resolveLiteral(args[0]) : undefined;
+      return value !== undefined ? { kind: "literal", optional: false, value } : unknown;
+    }
     case "array":
-      return ["array"];
-    case "object":
-      return ["object"];
+      return {
+        kind: "array",
+        optional: false,
+        element: args[0] ? parseValidator(args[0]) : { ...unknown, reference: undefined },
+      };
+    case "object": {
+      const object = args[0] ? resolveExpression(args[0]) : undefined;
+      return {
+        kind: "object",
+        optional: false,
+        fields: object && Node.isObjectLiteralExpression(object) ? parseObjectFields(object) : [],
+      };
+    }
+    case "record":
+      return {
+        kind: "record",
+        optional: false,
+        key: args[0] ? parseValidator(args[0]) : undefined,
+        element: args[1] ? parseValidator(args[1]) : undefined,
+      };
     case "union":
-      return ["union"];
-    case "literal":
-      return [`"${validatorArg.replace(/["']/g, "")}"`];
+      return { kind: "union", optional: false, members: args.map((a) => parseValidator(a)) };
+    case "nullable":
+      return {
+        kind: "union",
+        optional: false,
+        members: [
+          args[0] ? parseValidator(args[0]) : unknown,
+          { kind: "null", optional: false },
+        ],
+      };
     case "optional": {
-      // Try to extract the inner type
-      const innerMatch = validatorArg.match(/v\.(\w+)\s*\(([^)]*)\)/);
-      if (innerMatch) {
-        return resolveValidatorType(innerMatch[1], innerMatch[2] ?? "");
+      const inner = args[0] ? parseValidator(args[0]) : unknown;
+      const optional = { ...inner, optional: true };
+      const source = idValidatorSources.get(inner);
+      if (source) {
+        idValidatorSources.set(optional, source);
       }
-      return ["unknown?"];
+      return optional;
     }
-    case "null_":
-      return ["null"];
-    case "bytes":
-      return ["bytes"];
-    case "any":
-      return ["any"];
     default:
-      return [validatorType];
+      return unknown;
   }
 }
 
-function extractRelations(
-  tableName: string,
-  fieldsBlock: string
-): RelationEdge[] {
-  const relations: RelationEdge[] = [];
-  // Match v.id("tableName") and v.optional(v.id("tableName")) patterns
-  const idRefPattern =
-    /(\w+)\s*:\s*v\.(?:optional\s*\(\s*)?id\s*\(\s*["'](\w+)["']\s*\)/g;
-  let match: RegExpExecArray | null;
+function toFieldStat(path: string, validator: ValidatorNode): FieldStat {
+  return {
+    path,
+    types: describeValidator(validator),
+    optionalRate: validator.optional ? 1 : 0,
+    sampleCount: 0,
+    confidence: containsUnknown(validator) ? 0.8 : 1.0,
+    validator,
+  };
+}
 
-  while ((match = idRefPattern.exec(fieldsBlock)) !== null) {
-    relations.push({
-      fromTable: tableName,
-      fromFieldPath: match[1],
-      toTable: match[2],
-      confidence: 1.0,
-      source: "inferred",
-    });
-  }
+/**
+ * Id validators that are the validator itself or one of its union members.
+ * Ids nested deeper are reported on their own flattened path.
+ */
+function getDirectIdValidators(validator: ValidatorNode): ValidatorNode[] {
+  const candidates =
+    validator.kind === "union" ? validator.members ?? [] : [validator];
+  const seen = new Set<string>();
+  return candidates.filter((c) => {
+    if (c.kind !== "id" || !c.table || seen.has(c.table)) {
+      return false;
+    }
+    seen.add(c.table);
+    return true;
+  });
+}
 
-  return relations;
+/**
+ * Source range spanning from the start of `node` to the end of `endNode`.
+ * Undefined for the in-memory known library files.
+ */
+function toLocation(node: Node, endNode: Node = node): SourceLocation | undefined {
+  const file = node.getSourceFile();
+  if (file.getFilePath().startsWith(KNOWN_LIBRARY_ROOT)) {
+    return undefined;
+  }
+  const start = file.getLineAndColumnAtPos(node.getStart());
+  const end = file.getLineAndColumnAtPos(endNode.getEnd());
+  return {
+    file: vscode.Uri.file(file.getFilePath()).fsPath,
+    line: start.line - 1,
+    column: start.column - 1,
+    endLine: end.line - 1,
+    endColumn: end.column - 1,
+  };
 }
 
-function extractIndexes(
-  tableName: string,
-  fullContent: string,
-  tableStart: number
-): IndexDefinition[] {
-  const indexes: IndexDefinition[] = [];
-
-  // Look at content after the defineTable match, up to the next export/const/defineTable
-  const afterTable = fullContent.substring(tableStart);
-  // Limit scope: stop at next defineTable, export const, or end of chain
-  const scopeMatch = afterTable.match(
-    /defineTable\s*\(\s*\{[\s\S]*?\}\s*\)([\s\S]*?)(?=(?:export\s+const|(?:^|\n)\w+\s*:\s*defineTable)|$)/
-  );
-  const chainBlock = scopeMatch ? scopeMatch[1] : afterTable;
+// --- AST helpers ---
 
-  // Match .index("name", ["field1", "field2"])
-  const indexPattern =
-    /\.index\s*\(\s*["']([^"']+)["']\s*,\s*\[([^\]]*)\]\s*\)/g;
-  let match: RegExpExecArray | null;
+/**
+ * Follow identifiers and member accesses (including imported ones) to the
+ * initializer of their declaration, and strip parentheses and type assertions.
+ */
+function resolveExpression(expression: Node, depth = 0): Node {
+  if (depth > 20) {
+    return expression;
+  }
 
-  while ((match = indexPattern.exec(chainBlock)) !== null) {
-    const name = match[1];
-    const fieldsStr = match[2];
-    const fields = fieldsStr
-      .split(",")
-      .map((f) => f.trim().replace(/["']/g, ""))
-      .filter(Boolean);
+  if (
+    Node.isParenthesizedExpression(expression) ||
+    Node.isAsExpression(expression) ||
+    Node.isSatisfiesExpression(expression) ||
+    Node.isNonNullExpression(expression)
+  ) {
+    return resolveExpression(expression.getExpression(), depth + 1);
+  }
 
-    indexes.push({ table: tableName, name, fields, type: "by_field" });
+  if (Node.isIdentifier(expression)) {
+    const initializer = getInitializer(getDeclaration(expression));
+    if (initializer) {
+      return resolveExpression(initializer, depth + 1);
+    }
   }
 
-  // Match .searchIndex("name", { ... })
-  const searchPattern =
-    /\.searchIndex\s*\(\s*["']([^"']+)["']\s*,\s*\{([^}]*)\}\s*\)/g;
-  while ((match = searchPattern.exec(chainBlock)) !== null) {
-    const name = match[1];
-    const body = match[2];
-    const searchFieldMatch = body.match(/searchField\s*:\s*["'](\w+)["']/);
-    const fields = searchFieldMatch ? [searchFieldMatch[1]] : [];
+  if (Node.isPropertyAccessExpression(expression)) {
+    // `someValidator.fields` exposes the object passed to `v.object(...)`
+    if (expression.getName() === "fields") {
+      const target = resolveExpression(expression.getExpression(), depth + 1);
+      if (
+        Node.isCallExpression(target) &&
+        getCalleeName(target) === "object" &&
+        target.getArguments()[0]
+      ) {
+        return resolveExpression(target.getArguments()[0], depth + 1);
+      }
+    }
 
-    indexes.push({ table: tableName, name, fields, type: "search" });
+    // Namespace imports (`validators.vPriority`) and object members
+    // (`shared.address`) resolve through the member's declaration
+    const initializer = getInitializer(getDeclaration(expression.getNameNode()));
+    if (initializer) {
+      return resolveExpression(initializer, depth + 1);
+    }
   }
 
-  // Match .vectorIndex("name", { ... })
-  const vectorPattern =
-    /\.vectorIndex\s*\(\s*["']([^"']+)["']\s*,\s*\{([^}]*)\}\s*\)/g;
-  while ((match = vectorPattern.exec(chainBlock)) !== null) {
-    const name = match[1];
-    const body = match[2];
-    const vectorFieldMatch = body.match(/vectorField\s*:\s*["'](\w+)["']/);
-    const fields = vectorFieldMatch ? [vectorFieldMatch[1]] : [];
+  return expression;
+}
 
-    indexes.push({ table: tableName, name, fields, type: "vector" });
+function getInitializer(declaration: Node | undefined): Node | undefined {
+  if (
+    Node.isVariableDeclaration(declaration) ||
+    Node.isPropertyAssignment(declaration)
+  ) {
+    return declaration.getInitializer();
+  }
+  if (Node.isShorthandPropertyAssignment(declaration)) {
+    return getPropertyValue(declaration);
   }
+  return undefined;
+}
 
-  return indexes;
+function getDeclaration(identifier: Node): Node | undefined {
+  let symbol = identifier.getSymbol();
+  if (symbol?.isAlias()) {
+    symbol = symbol.getAliasedSymbol() ?? symbol;
+  }
+  return symbol?.getDeclarations()[0];
+}
+
+function getCalleeName(call: CallExpression): string | undefined {
+  const callee = call.getExpression();
+  if (Node.isIdentifier(callee)) {
+    return callee.getText();
+  }
+  if (Node.isPropertyAccessExpression(callee)) {
+    return callee.getName();
+  }
+  return undefined;
+}
+
+function getPropertyName(property: Node): string | undefined {
+  if (Node.isPropertyAssignment(property)) {
+    const nameNode = property.getNameNode();
+    if (Node.isStringLiteral(nameNode) || Node.isNoSubstitutionTemplateLiteral(nameNode)) {
+      return nameNode.getLiteralValue();
+    }
+    return nameNode.getText();
+  }
+  if (Node.isShorthandPropertyAssignment(property)) {
+    return property.getName();
+  }
+  return undefined;
+}
+
+function getPropertyValue(property: Node): Expression | undefined {
+  if (Node.isPropertyAssignment(property)) {
+    return property.getInitializer();
+  }
+  if (Node.isShorthandPropertyAssignment(property)) {
+    const declaration = property.getValueSymbol()?.getDeclarations()[0];
+    if (Node.isVariableDeclaration(declaration)) {
+      return declaration.getInitializer();
+    }
+    const aliased = property.getValueSymbol()?.getAliasedSymbol()?.getDeclarations()[0];
+    if (Node.isVariableDeclaration(aliased)) {
+      return aliased.getInitializer();
+    }
+  }
+  return undefined;
+}
+
+function getObjectProperty(
+  object: ObjectLiteralExpression,
+  name: string
+): Expression | undefined {
+  const property = object.getProperties().find((p) => getPropertyName(p) === name);
+  return property ? getPropertyValue(property) : undefined;
+}
+
+function resolveString(node: Node): string | undefined {
+  const value = resolveLiteral(node);
+  return typeof value === "string" ? value : undefined;
+}
+
+function resolveLiteral(node: Node): string | number | boolean | undefined {
+  const resolved = resolveExpression(node);
+  if (Node.isStringLiteral(resolved) || Node.isNoSubstitutionTemplateLiteral(resolved)) {
+    return resolved.getLiteralValue();
+  }
+  if (Node.isNumericLiteral(resolved)) {
+    return resolved.getLiteralValue();
+  }
+  if (Node.isTrueLiteral(resolved) || Node.isFalseLiteral(resolved)) {
+    return resolved.getLiteralValue();
+  }
+  if (
+    Node.isPrefixUnaryExpression(resolved) &&
+    resolved.getOperatorToken() === ts.SyntaxKind.MinusToken
+  ) {
+    const operand = resolveLiteral(resolved.getOperand());
+    return typeof operand === "number" ? -operand : undefined;
+  }
+  return undefined;
+}
+
+function resolveStringArray(node: Node): string[] {
+  const resolved = resolveExpression(node);
+  if (!Node.isArrayLiteralExpression(resolved)) {
+    return [];
+  }
+  return resolved
+    .getElements()
+    .map((element) => resolveString(element))
+    .filter((value): value is string => value !== undefined);
 }
 
 async function readFileContent(uri: vscode.Uri): Promise<string | null> {
+  const openDocument = vscode.workspace.textDocuments.find(
+    (d) => d.uri.fsPath === uri.fsPath
+  );
+  if (openDocument) {
+    return openDocument.getText();
+  }
+
   try {
     const content = await vscode.workspace.fs.readFile(uri);
     return Buffer.from(content).toString("utf-8");
@@ -0,0 +1,116 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+export interface SchemaChangeEvent {
+  /**
+   * Whether a file was saved, created or deleted in the debounce window,
+   * rather than only edited in an editor.
+   */
+  saved: boolean;
+}
+
+/**
+ * Watches convex/schema.ts and every file it was parsed from, and fires a
+ * debounced change event on saves, unsaved edits, creation and deletion.
+ */
+export class SchemaWatcher implements vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<SchemaChangeEvent>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private readonly _disposables: vscode.Disposable[] = [];
+  private _fileWatchers: vscode.FileSystemWatcher[] = [];
+  private _files = new Set<string>();
+  private _timer: ReturnType<typeof setTimeout> | undefined;
+  private _pendingSaved = false;
+
+  constructor(private readonly _debounceMs: number = 750) {
+    // Catches a schema file being created or removed anywhere
+    const schemaWatcher = vscode.workspace.createFileSystemWatcher(
+      "**/convex/schema.{ts,js}"
+    );
+    schemaWatcher.onDidCreate(() => this._schedule(true));
+    schemaWatcher.onDidDelete(() => this._schedule(true));
+
+    this._disposables.push(
+      schemaWatcher,
+      vscode.workspace.onDidChangeTextDocument((e) => {
+        if (e.contentChanges.length > 0 && this._files.has(e.document.uri.fsPath)) {
+          this._schedule(false);
+        }
+      }),
+      vscode.workspace.onDidSaveTextDocument((doc) => {
+        if (this._files.has(doc.uri.fsPath)) {
+          this._schedule(true);
+        }
+      })
+    );
+  }
+
+  /**
+   * Replace the set of watched files with the sources of the latest parse.
+   */
+  watch(files: string[]): void {
+    const next = new Set(files.map((f) => vscode.Uri.file(f).fsPath));
+    if (
+      next.size === this._files.size &&
+      Array.from(next).every((f) => this._files.has(f))
+    ) {
+      return;
+    }
+
+    this._disposeFileWatchers();
+    this._files = next;
+
+    for (const file of next) {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(
+          vscode.Uri.file(path.dirname(file)),
+          path.basename(file)
+        )
+      );
+      watcher.onDidChange(() => this._schedule(true));
+      watcher.onDidCreate(() => this._schedule(true));
+      watcher.onDidDelete(() => this._schedule(true));
+      this._fileWatchers.push(watcher);
+    }
+  }
+
+  /**
+   * Whether a watched file, or any file under `dir`, has unsaved edits.
+   */
+  hasUnsavedChanges(dir?: string): boolean {
+    return vscode.workspace.textDocuments.some(
+      (doc) =>
+        doc.isDirty &&
+        (this._files.has(doc.uri.fsPath) ||
+          (dir !== undefined && doc.uri.fsPath.startsWith(dir + path.sep)))
+    );
+  }
+
+  private _schedule(saved: boolean): void {
+    if (this._timer) {
+      clearTimeout(this._timer);
+    }
+    this._pendingSaved ||= saved;
+    this._timer = setTimeout(() => {
+      const event = { saved: this._pendingSaved };
+      this._timer = undefined;
+      this._pendingSaved = false;
+      this._onDidChange.fire(event);
+    }, this._debounceMs);
+  }
+
+  private _disposeFileWatchers(): void {
+    this._fileWatchers.forEach((w) => w.dispose());
+    this._fileWatchers = [];
+  }
+
+  dispose(): void {
+    if (this._timer) {
+      clearTimeout(this._timer);
+    }
+    this._disposeFileWatchers();
+    this._disposables.forEach((d) => d.dispose());
+    this._onDidChange.dispose();
+  }
+}
@@ -1,5 +1,5 @@
 import * as vscode from "vscode";
-import type { SchemaSnapshot } from "../shared/types";
+import type { IndexDefinition, SchemaSnapshot } from "../shared/types";
 import { randomUUID } from "crypto";
 
 /**
@@ -66,10 +66,49 @@ export class SnapshotStore {
     }
   }
 
+  /**
+   * Rename or pin a stored snapshot. Returns the updated snapshot, or
+   * null if it no longer exists.
+   */
+  async update(
+    snapshotId: string,
+    changes: Pick<Partial<SchemaSnapshot>, "label" | "pinned">
+  ): Promise<SchemaSnapshot | null> {
+    const snapshot = await this.get(snapshotId);
+    if (!snapshot) {return null;}
+    const updated = { ...snapshot, ...changes };
+    await this.save(updated);
+    return updated;
+  }
+
+  async delete(snapshotId: string): Promise<void> {
+    const uri = vscode.Uri.joinPath(this._storageDir, `${snapshotId}.json`);
+    try {
+      await vscode.workspace.fs.delete(uri, { useTrash: false });
+    } catch {
+      // Already gone
+    }
+  }
+
+  /**
+   * Delete a deployment's snapshots beyond the newest `keep`, sparing
+   * pinned ones. `keep <= 0` keeps everything. Returns the deleted IDs.
+   */
+  async applyRetention(deploymentId: string, keep: number): Promise<string[]> {
+    if (keep <= 0) {return [];}
+    const expired = selectExpiredSnapshots(await this.list(deploymentId), keep);
+    for (const snapshot of expired) {
+      await this.delete(snapshot.id);
+    }
+    return expired.map((s) => s.id);
+  }
+
   createSnapshot(
     deploymentId: string,
     tables: SchemaSnapshot["tables"],
-    relations: SchemaSnapshot["relations"]
+    relations: SchemaSnapshot["relations"],
+    indexes: IndexDefinition[],
+    git?: SchemaSnapshot["git"]
   ): SchemaSnapshot {
     return {
       id: randomUUID(),
@@ -77,6 +116,22 @@ export class SnapshotStore {
       createdAt: Date.now(),
       tables,
       relations,
+      indexes,
+      git,
     };
   }
 }
+
+/**
+ * Snapshots the retention policy removes: everything older than the
+ * newest `keep`, except pinned snapshots.
+ */
+export function selectExpiredSnapshots(
+  snapshots: SchemaSnapshot[],
+  keep: number
+): SchemaSnapshot[] {
+  return [...snapshots]
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(keep)
+    .filter((s) => !s.pinned);
+}
@@ -0,0 +1,113 @@
+import type { ValidatorField, ValidatorNode } from "../shared/types";
+
+/**
+ * Flatten a document's fields into dotted paths. Object fields expand into
+ * `address.geo.lat`, array elements into `tags[]` and `items[].sku`.
+ * Parents are listed before their children.
+ */
+export function flattenValidatorFields(
+  fields: ValidatorField[]
+): { path: string; validator: ValidatorNode }[] {
+  const flattened: { path: string; validator: ValidatorNode }[] = [];
+
+  const visit = (path: string, node: ValidatorNode, depth: number): void => {
+    flattened.push({ path, validator: node });
+    if (depth > 10) {
+      return;
+    }
+    for (const field of getNestedFields(node)) {
+      visit(`${path}.${field.name}`, field.validator, depth + 1);
+    }
+    if (node.kind === "array" && node.element) {
+      visit(`${path}[]`, node.element, depth + 1);
+    }
+  };
+
+  for (const field of fields) {
+    visit(field.name, field.validator, 0);
+  }
+  return flattened;
+}
+
+function getNestedFields(node: ValidatorNode): ValidatorField[] {
+  if (node.kind === "object") {
+    return node.fields ?? [];
+  }
+  if (node.kind === "union" && (node.members ?? []).some((m) => m.kind === "object")) {
+    return mergeUnionFields(node.members ?? []);
+  }
+  return [];
+}
+
+/**
+ * Render a validator as the list of type labels shown in the views,
+ * e.g. `["string"]`, `["Id<users>"]`, `['"admin"', '"member"']`.
+ */
+export function describeValidator(node: ValidatorNode): string[] {
+  switch (node.kind) {
+    case "float64":
+      return ["number"];
+    case "int64":
+      return ["bigint"];
+    case "id":
+      return [`Id<${node.table}>`];
+    case "literal":
+      return [JSON.stringify(node.value)];
+    case "array": {
+      const element = node.element ? describeValidator(node.element) : ["unknown"];
+      return [element.length === 1 ? `${element[0]}[]` : `(${element.join(" | ")})[]`];
+    }
+    case "record": {
+      const key = node.key ? describeValidator(node.key).join(" | ") : "string";
+      const value = node.element ? describeValidator(node.element).join(" | ") : "unknown";
+      return [`Record<${key}, ${value}>`];
+    }
+    case "union":
+      return Array.from(
+        new Set((node.members ?? []).flatMap((m) => describeValidator(m)))
+      );
+    case "unknown":
+      return [node.reference ?? "unknown"];
+    default:
+      return [node.kind];
+  }
+}
+
+/**
+ * Whether a validator contains any expression the parser could not resolve.
+ */
+export function containsUnknown(node: ValidatorNode): boolean {
+  return (
+    node.kind === "unknown" ||
+    (node.members ?? []).some(containsUnknown) ||
+    (node.fields ?? []).some((f) => containsUnknown(f.validator)) ||
+    (node.element !== undefined && containsUnknown(node.element))
+  );
+}
+
+/**
+ * Merge the fields of a union of objects. A field missing from any member
+ * becomes optional; fields with differing validators become unions.
+ */
+export function mergeUnionFields(members: ValidatorNode[]): ValidatorField[] {
+  const objects = members.filter((m) => m.kind === "object");
+  const merged = new Map<string, { validators: ValidatorNode[]; count: number }>();
+
+  for (const member of objects) {
+    for (const field of member.fields ?? []) {
+      const entry = merged.get(field.name) ?? { validators: [], count: 0 };
+      entry.validators.push(field.validator);
+      entry.count++;
+      merged.set(field.name, entry);
+    }
+  }
+
+  return Array.from(merged, ([name, { validators, count }]) => {
+    const optional = count < objects.length || validators.some((v) => v.optional);
+    const validator: ValidatorNode =
+      validators.length === 1
+        ? { ...validators[0], optional }
+        : { kind: "union", optional, members: validators.map((v) => ({ ...v, optional: false })) };
+    return { name, validator };
+  });
+}
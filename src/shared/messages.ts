@@ -6,7 +6,12 @@ import type {
   IndexCoverageIssue,
   QueryWatchUpdate,
   SchemaDriftDto,
+  DriftTimelineDto,
   RelationOverrideDto,
+  ConformanceReportDto,
+  FieldProfileDto,
+  IntegrityReportDto,
+  OrphanFixDto,
 } from "./types";
 
 // Messages sent from extension host to webview
@@ -15,15 +20,22 @@ export type ToWebviewMessage =
   | { type: "indexFindings"; payload: IndexCoverageIssue[] }
   | { type: "watchUpdate"; payload: QueryWatchUpdate }
   | { type: "driftDiff"; payload: SchemaDriftDto }
+  | { type: "driftTimeline"; payload: DriftTimelineDto }
+  | { type: "conformanceReport"; payload: ConformanceReportDto }
+  | { type: "fieldProfile"; payload: FieldProfileDto }
+  | { type: "integrityReport"; payload: IntegrityReportDto }
   | { type: "loading"; payload: { message: string } }
   | { type: "error"; payload: { message: string } };
 
 // Messages sent from webview to extension host
 export type FromWebviewMessage =
-  | { type: "openFile"; path: string; line?: number }
+  | { type: "openFile"; path: string; line?: number; column?: number }
   | { type: "refresh" }
   | { type: "export"; format: "json" | "svg" | "png" }
   | { type: "setRelationOverride"; payload: RelationOverrideDto }
   | { type: "ready" }
+  | { type: "openDocument"; payload: { table: string; id: string } }
+  | { type: "fixOrphan"; payload: OrphanFixDto }
+  | { type: "generateMigration"; payload: SchemaDriftDto }
   | { type: "updateDocument"; payload: { table: string; id: string; field: string; value: unknown } }
   | { type: "createDocument"; payload: { table: string; document: Record<string, unknown> } };
@@ -11,12 +11,59 @@ export interface DeploymentTarget {
   connectedAt: number;
 }
 
+// Canonical validator model parsed from schema.ts, shared by every view.
+export type ValidatorKind =
+  | "string"
+  | "float64"
+  | "int64"
+  | "boolean"
+  | "null"
+  | "bytes"
+  | "any"
+  | "id"
+  | "literal"
+  | "array"
+  | "object"
+  | "record"
+  | "union"
+  | "unknown";
+
+export interface ValidatorNode {
+  kind: ValidatorKind;
+  optional: boolean;
+  /** Target table of `v.id("table")`. */
+  table?: string;
+  /** Value of `v.literal(...)`. */
+  value?: string | number | boolean;
+  /** Element of `v.array(...)`, or the value side of `v.record(...)`. */
+  element?: ValidatorNode;
+  /** Key side of `v.record(...)`. */
+  key?: ValidatorNode;
+  /** Fields of `v.object({...})`, in declaration order. */
+  fields?: ValidatorField[];
+  /** Members of `v.union(...)`. */
+  members?: ValidatorNode[];
+  /** Source text of an expression that could not be resolved to a validator. */
+  reference?: string;
+}
+
+export interface ValidatorField {
+  name: string;
+  validator: ValidatorNode;
+}
+
 export interface FieldStat {
   path: string;
   types: string[];
   optionalRate: number;
   sampleCount: number;
   confidence: number;
+  /** Declared validator from schema.ts; absent for fields inferred from data. */
+  validator?: ValidatorNode;
+  /** Where the field is declared, when parsed from source. */
+  location?: SourceLocation;
+  /** Observed lengths, for array fields inferred from data. */
+  arrayLength?: { min: number; max: number; mean: number };
 }
 
 export interface TableSchema {
@@ -24,6 +71,30 @@ export interface TableSchema {
   fields: FieldStat[];
   sampledDocs: number;
   inferredAt: number;
+  /** Set when the table was spread into defineSchema from a table map. */
+  origin?: TableOrigin;
+  /** Where the table is declared, when parsed from source. */
+  location?: SourceLocation;
+  /** `inferred` when the table comes from sampled data rather than schema.ts. */
+  source?: "declared" | "inferred";
+}
+
+export interface TableOrigin {
+  /** Name of the spread table map, e.g. `authTables`. */
+  exportName: string;
+  /** Module the map was imported from, e.g. `@convex-dev/auth/server`. */
+  module?: string;
+  /** True when the map comes from a package rather than project source. */
+  library: boolean;
+}
+
+/** Range in a source file; lines and columns are 0-based. */
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
 }
 
 export interface RelationEdge {
@@ -32,6 +103,8 @@ export interface RelationEdge {
   toTable: string;
   confidence: number;
   source: "inferred" | "manual";
+  /** The `v.id(...)` call the relation was parsed from. */
+  location?: SourceLocation;
 }
 
 export interface IndexDefinition {
@@ -39,6 +112,10 @@ export interface IndexDefinition {
   name: string;
   fields: string[];
   type: "by_field" | "search" | "vector";
+  /** `filterFields` of a search or vector index. */
+  filterFields?: string[];
+  /** The `.index(...)` / `.searchIndex(...)` / `.vectorIndex(...)` call. */
+  location?: SourceLocation;
 }
 
 export interface IndexCoverageIssue {
@@ -55,6 +132,23 @@ export interface SchemaSnapshot {
   createdAt: number;
   tables: TableSchema[];
   relations: RelationEdge[];
+  /** Missing from snapshots taken before indexes were recorded. */
+  indexes?: IndexDefinition[];
+  /** User-given name, shown instead of the timestamp. */
+  label?: string;
+  /** Pinned snapshots are never removed by the retention policy. */
+  pinned?: boolean;
+  /** Git HEAD of the workspace when the snapshot was taken. */
+  git?: GitCommitInfo;
+}
+
+export interface GitCommitInfo {
+  sha: string;
+  /** Undefined when HEAD is detached. */
+  branch?: string;
+  /** Uncommitted changes were present. */
+  dirty: boolean;
+  subject?: string;
 }
 
 export interface QueryWatchUpdate {
@@ -72,6 +166,9 @@ export interface SchemaGraphNode {
   table: string;
   fields: FieldStat[];
   indexCount: number;
+  origin?: TableOrigin;
+  location?: SourceLocation;
+  source?: "declared" | "inferred";
 }
 
 export interface SchemaGraphEdge {
@@ -81,6 +178,7 @@ export interface SchemaGraphEdge {
   sourceField: string;
   confidence: number;
   label?: string;
+  origin?: RelationEdge["source"];
 }
 
 export interface SchemaGraphDto {
@@ -91,22 +189,106 @@ export interface SchemaGraphDto {
 // Drift diff DTOs
 export interface FieldDiff {
   path: string;
-  change: "added" | "removed" | "type_changed";
+  change:
+    | "added"
+    | "removed"
+    | "type_changed"
+    | "optionality_changed"
+    | "possibly_renamed";
   oldTypes?: string[];
   newTypes?: string[];
+  /** Set on `optionality_changed`. */
+  oldOptional?: boolean;
+  newOptional?: boolean;
+  /** Previous path of a `possibly_renamed` field; `path` is the new one. */
+  renamedFrom?: string;
+  /** How alike the two names are, 0-1, for `possibly_renamed`. */
+  confidence?: number;
+  /** Set once checked against live data. */
+  risk?: ChangeRisk;
+  riskReason?: string;
 }
 
+/**
+ * How a change fares against the deployment's data: `will_fail_push` when
+ * sampled documents break the new schema, `needs_migration` when data must
+ * be moved or cleaned up for the change to take effect.
+ */
+export type ChangeRisk = "safe" | "needs_migration" | "will_fail_push";
+
 export interface TableDiff {
   table: string;
   change: "added" | "removed" | "modified";
   fieldDiffs: FieldDiff[];
+  /** Worst risk of the table's changes, once checked against live data. */
+  risk?: ChangeRisk;
+  riskReason?: string;
+}
+
+export interface IndexDiff {
+  table: string;
+  name: string;
+  type: IndexDefinition["type"];
+  change: "added" | "removed" | "fields_changed";
+  oldFields?: string[];
+  newFields?: string[];
+  oldFilterFields?: string[];
+  newFilterFields?: string[];
+}
+
+export interface RelationDiff {
+  fromTable: string;
+  fromFieldPath: string;
+  toTable: string;
+  change: "added" | "removed";
 }
 
 export interface SchemaDriftDto {
   fromSnapshotId: string;
   toSnapshotId: string;
+  /** Names for the two sides when they aren't stored snapshots. */
+  fromLabel?: string;
+  toLabel?: string;
   tableDiffs: TableDiff[];
+  indexDiffs: IndexDiff[];
+  relationDiffs: RelationDiff[];
   summary: string;
+  /** When `risk` was filled in from live data. */
+  riskCheckedAt?: number;
+}
+
+// Drift timeline DTOs
+export interface DriftTimelinePoint {
+  snapshotId: string;
+  createdAt: number;
+  label?: string;
+  git?: GitCommitInfo;
+}
+
+export interface FieldTimeline {
+  path: string;
+  /** Types at each point, null where the field didn't exist. */
+  types: (string[] | null)[];
+  /**
+   * Changes into each point from the one before; empty when unchanged. A
+   * field can be retyped and made optional in the same step.
+   */
+  changes: FieldDiff["change"][][];
+}
+
+export interface TableTimeline {
+  table: string;
+  /** Whether the table existed at each point. */
+  present: boolean[];
+  fields: FieldTimeline[];
+}
+
+export interface DriftTimelineDto {
+  /** Snapshots, oldest first. */
+  points: DriftTimelinePoint[];
+  /** `steps[i]` is the drift from `points[i]` to `points[i + 1]`. */
+  steps: SchemaDriftDto[];
+  tables: TableTimeline[];
 }
 
 export interface RelationOverrideDto {
@@ -115,3 +297,97 @@ export interface RelationOverrideDto {
   toTable: string;
   action: "add" | "remove";
 }
+
+// Conformance report DTOs (declared schema vs sampled data)
+export interface ConformanceIssue {
+  table: string;
+  documentId: string;
+  path: string;
+  kind: "extra_field" | "missing_field" | "wrong_type" | "invalid_literal";
+  expected?: string;
+  actual?: string;
+}
+
+export interface TableConformance {
+  table: string;
+  sampledDocs: number;
+  issues: ConformanceIssue[];
+  /** Observed top-level fields the schema doesn't declare. */
+  undeclaredFields: FieldStat[];
+}
+
+export interface ConformanceReportDto {
+  tables: TableConformance[];
+  checkedAt: number;
+}
+
+// Referential integrity DTOs
+export interface OrphanReference {
+  /** Document holding the dangling reference. */
+  documentId: string;
+  /** Referenced ID that no longer resolves to a document. */
+  missingId: string;
+}
+
+export interface RelationIntegrity {
+  fromTable: string;
+  fromFieldPath: string;
+  toTable: string;
+  scannedDocs: number;
+  checkedRefs: number;
+  orphans: OrphanReference[];
+  /** The scan stopped at the document limit before reaching the end. */
+  truncated: boolean;
+}
+
+export interface IntegrityReportDto {
+  relations: RelationIntegrity[];
+  checkedAt: number;
+  /** Fixes are disabled while `exconvex.readOnly` is on. */
+  readOnly: boolean;
+}
+
+/** A fix for a dangling reference, applied to the referencing document. */
+export interface OrphanFixDto {
+  table: string;
+  id: string;
+  field: string;
+  action: "clear" | "delete";
+}
+
+// Field profile DTOs
+export interface ValueFrequency {
+  /** JSON rendering of the value. */
+  value: string;
+  count: number;
+}
+
+export interface NumericSummary {
+  min: number;
+  max: number;
+  mean: number;
+}
+
+export interface HistogramBucket {
+  /** Inclusive range label, e.g. `0–9`. */
+  label: string;
+  count: number;
+}
+
+export interface FieldProfileDto {
+  table: string;
+  path: string;
+  sampledDocs: number;
+  /** Values found at the path; array paths (`tags[]`) count every element. */
+  valueCount: number;
+  missingCount: number;
+  nullCount: number;
+  distinctCount: number;
+  topValues: ValueFrequency[];
+  types: Record<string, number>;
+  numbers?: NumericSummary;
+  /** Set when the numbers look like millisecond timestamps. */
+  timestamps?: { min: number; max: number };
+  stringLengths?: NumericSummary & { histogram: HistogramBucket[] };
+  arrayLengths?: NumericSummary & { histogram: HistogramBucket[] };
+}
@@ -1,5 +1,28 @@
 import * as assert from "assert";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import * as vscode from "vscode";
+import { getParentFieldPath } from "../schema/fieldPaths";
+import { checkConformance } from "../schema/conformance";
+import { collectIdCandidates, inferSchemaFromDocs } from "../schema/sampleInference";
+import { profileField } from "../schema/fieldProfile";
+import { generateDefineTable } from "../schema/codegen";
+import { collectReferences, findOrphans } from "../schema/integrity";
+import { nextPageSize } from "../data/sampling";
+import { parseTableList, type ConvexDataClient } from "../data/convexClient";
+import { inferSchemaFromDeployment } from "../schema/liveInference";
+import { selectExpiredSnapshots } from "../schema/snapshotStore";
+import { formatCommit } from "../git/gitInfo";
+import { parseSchemaAtRevision, readFilesAtRevision } from "../git/gitRevision";
+import { computeDrift } from "../schema/driftDiff";
+import { buildDriftTimeline } from "../schema/driftTimeline";
+import { parseSchemaFromSources } from "../schema/schemaParser";
+import { classifyTableDiff } from "../schema/breakingChanges";
+import { generateMigrationModule, migrationModuleName } from "../schema/migrationScaffold";
+import { applyRelationOverrides } from "../schema/relationOverrides";
+import { checkIndexes, checkRelations, findCoveringIndex } from "../schema/schemaDiagnostics";
 
 suite("Extension Test Suite", () => {
 	test("Extension activates and registers commands", async () => {
@@ -71,4 +94,664 @@ suite("Extension Test Suite", () => {
 		assert.strictEqual(snapshot2.tables[0].fields.length, 3);
 		assert.notStrictEqual(snapshot1.id, snapshot2.id);
 	});
+
+	test("Nested field paths resolve to their parent", () => {
+		assert.strictEqual(getParentFieldPath("address.geo.lat"), "address.geo");
+		assert.strictEqual(getParentFieldPath("tags[]"), "tags");
+		assert.strictEqual(getParentFieldPath("items[].sku"), "items[]");
+		assert.strictEqual(getParentFieldPath("name"), undefined);
+	});
+
+	test("Conformance check reports documents that break the declared schema", () => {
+		const result = checkConformance(
+			{
+				table: "tasks",
+				fields: [
+					{ path: "title", types: ["string"], optionalRate: 0, sampleCount: 0, confidence: 1, validator: { kind: "string", optional: false } },
+					{
+						path: "status", types: ['"todo"', '"done"'], optionalRate: 0, sampleCount: 0, confidence: 1,
+						validator: {
+							kind: "union",
+							optional: false,
+							members: [
+								{ kind: "literal", optional: false, value: "todo" },
+								{ kind: "literal", optional: false, value: "done" },
+							],
+						},
+					},
+				],
+				sampledDocs: 0,
+				inferredAt: 0,
+			},
+			[
+				{ _id: "a", _creationTime: 1, title: "ok", status: "todo" },
+				{ _id: "b", _creationTime: 2, status: "archived", extra: true },
+				{ _id: "c", _creationTime: 3, title: 42, status: "done" },
+			]
+		);
+
+		assert.deepStrictEqual(
+			result.issues.map((i) => `${i.documentId}:${i.path}:${i.kind}`),
+			["b:title:missing_field", "b:status:invalid_literal", "b:extra:extra_field", "c:title:wrong_type"]
+		);
+		assert.deepStrictEqual(result.undeclaredFields.map((f) => f.path), ["extra"]);
+	});
+
+	test("Inferred relations come from resolved ID values", () => {
+		const projectId = "jd7f0k3s9m2q8r4t6v1w5x7y9z0a2b4c";
+		const docs = [
+			{ _id: "k57abc", parent: projectId, title: "a" },
+			{ _id: "k57abd", parent: projectId, title: "b" },
+			{ _id: "k57abe", parent: "not-an-id", title: "c" },
+		];
+
+		assert.deepStrictEqual(collectIdCandidates(docs), [projectId]);
+
+		const { relations } = inferSchemaFromDocs("tasks", docs, new Map([[projectId, "projects"]]));
+		assert.strictEqual(relations.length, 1);
+		assert.strictEqual(relations[0].fromFieldPath, "parent");
+		assert.strictEqual(relations[0].toTable, "projects");
+		assert.strictEqual(relations[0].confidence, 2 / 3);
+	});
+
+	test("Field profile fans out over array elements", () => {
+		const profile = profileField("orders", "items[].qty", [
+			{ items: [{ qty: 1 }, { qty: 3 }] },
+			{ items: [{ qty: 3 }] },
+			{ items: [] },
+			{},
+		]);
+
+		assert.strictEqual(profile.valueCount, 3);
+		assert.strictEqual(profile.missingCount, 2);
+		assert.strictEqual(profile.distinctCount, 2);
+		assert.deepStrictEqual(profile.topValues[0], { value: "3", count: 2 });
+		assert.deepStrictEqual(
+			{ min: profile.numbers?.min, max: profile.numbers?.max },
+			{ min: 1, max: 3 }
+		);
+	});
+
+	test("Inference expands array elements into nested paths", () => {
+		const { schema } = inferSchemaFromDocs("orders", [
+			{ items: [{ sku: "a", qty: 1 }, { sku: "b" }], tags: ["x"] },
+			{ items: [], tags: ["y", "z"] },
+		]);
+		const byPath = new Map(schema.fields.map((f) => [f.path, f]));
+
+		assert.deepStrictEqual(byPath.get("items")?.types, ["object[]"]);
+		assert.deepStrictEqual(byPath.get("tags")?.types, ["string[]"]);
+		assert.deepStrictEqual(byPath.get("tags")?.arrayLength, { min: 1, max: 2, mean: 1.5 });
+		assert.strictEqual(byPath.get("items[].sku")?.optionalRate, 0);
+		assert.strictEqual(byPath.get("items[].qty")?.optionalRate, 0.5);
+	});
+
+	test("Generated defineTable uses optional, literal unions and ids", () => {
+		const ownerId = "jd7f0k3s9m2q8r4t6v1w5x7y9z0a2b4c";
+		const docs = ["todo", "todo", "done", "done"].map((status, i) => ({
+			_id: `doc${i}`,
+			status,
+			owner: ownerId,
+			...(i === 0 ? { note: "first" } : {}),
+		}));
+
+		assert.strictEqual(
+			generateDefineTable(docs, new Map([[ownerId, "users"]])),
+			[
+				"defineTable({",
+				"  note: v.optional(v.string()),",
+				'  owner: v.id("users"),',
+				'  status: v.union(v.literal("done"), v.literal("todo")),',
+				"})",
+			].join("\n")
+		);
+	});
+
+	test("Integrity scan lists every document holding a missing reference", () => {
+		const references = collectReferences(
+			[
+				{ _id: "t1", projectId: "p1", watcherIds: ["u1", "u2"] },
+				{ _id: "t2", projectId: "p2", watcherIds: ["u2"] },
+				{ _id: "t3", watcherIds: [] },
+			],
+			"watcherIds[]"
+		);
+
+		assert.deepStrictEqual(Array.from(references.keys()), ["u1", "u2"]);
+		assert.deepStrictEqual(findOrphans(references, new Set(["u2"])), [
+			{ documentId: "t1", missingId: "u2" },
+			{ documentId: "t2", missingId: "u2" },
+		]);
+	});
+
+	test("Sampling pages fit the CLI output buffer and the query read limit", () => {
+		const readLimit = 8 * 1024 * 1024;
+		assert.strictEqual(nextPageSize(undefined), 500);
+		// Small documents are capped by the documents one query may read
+		assert.strictEqual(nextPageSize(100), 8000);
+		// Strided pages count every document read, not only the returned ones
+		for (const [bytesPerDoc, stride] of [[2048, 100], [2048, 3], [100 * 1024, 7], [512, 1000]]) {
+			const numItems = nextPageSize(bytesPerDoc, stride);
+			assert.ok(numItems * bytesPerDoc <= readLimit, `${numItems} × ${bytesPerDoc} bytes`);
+			assert.strictEqual(numItems % stride, 0);
+		}
+		// The first strided page reads no more than an unstrided one
+		assert.strictEqual(nextPageSize(undefined, 100), 500);
+		// A stride too large to read shrinks the page below it
+		assert.ok(nextPageSize(1024 * 1024, 100) * 1024 * 1024 <= readLimit);
+		assert.strictEqual(nextPageSize(100 * 1024 * 1024, 5), 1);
+	});
+
+	test("Table lists are read from npx convex data output, rejecting anything else", async () => {
+		assert.deepStrictEqual(parseTableList("messages\nusers\n"), ["messages", "users"]);
+		assert.deepStrictEqual(parseTableList("  tasks \r\n\nteam_members"), ["tasks", "team_members"]);
+		// No tables: the CLI's notice goes to stderr
+		assert.deepStrictEqual(parseTableList(""), []);
+		assert.throws(() => parseTableList("Tables:\n  users"), /Unrecognized output.*"Tables:"/);
+		assert.throws(() => parseTableList("users\n✖ Error: no deployment"), /Unrecognized output/);
+
+		const userId = "jd7a1b2c3d4e5f6g7h8j9k0m1n2p3q4r";
+		const fakeClient = (listTables: () => Promise<string[]>) => ({
+			listTables,
+			listDocs: async (table: string) =>
+				table === "users" ? [{ _id: userId, name: "Ada" }] : [{ _id: "jh7x", title: "Ship", ownerId: userId }],
+			resolveIds: async (ids: string[]) => new Map(ids.map((id) => [id, "users"])),
+		}) as unknown as ConvexDataClient;
+
+		const result = await inferSchemaFromDeployment(
+			fakeClient(async () => parseTableList("tasks\nusers")),
+			10
+		);
+		assert.deepStrictEqual(result?.tables.map((t) => [t.table, t.source]), [["tasks", "inferred"], ["users", "inferred"]]);
+		assert.deepStrictEqual(result?.relations.map((r) => [r.fromTable, r.fromFieldPath, r.toTable]), [["tasks", "ownerId", "users"]]);
+		await assert.rejects(
+			inferSchemaFromDeployment(fakeClient(async () => parseTableList("Usage: npx convex data [table]")), 10),
+			/Unrecognized output/
+		);
+	});
+
+	test("Snapshot retention keeps the newest and every pinned snapshot", () => {
+		const snapshots = [1, 2, 3, 4, 5].map((n) => ({
+			id: `s${n}`,
+			deploymentId: "dep1",
+			createdAt: n * 1000,
+			tables: [],
+			relations: [],
+			pinned: n === 1,
+		}));
+
+		assert.deepStrictEqual(
+			selectExpiredSnapshots(snapshots, 2).map((s) => s.id),
+			["s3", "s2"]
+		);
+	});
+
+	test("Snapshot commits show short SHA, branch and dirty state", () => {
+		const sha = "0123456789abcdef0123456789abcdef01234567";
+
+		assert.strictEqual(formatCommit({ sha, branch: "main", dirty: true }), "0123456 (main*)");
+		assert.strictEqual(formatCommit({ sha, dirty: false }), "0123456 (detached)");
+	});
+
+	test("Drift reports index and relation changes", () => {
+		const base = { deploymentId: "dep1", tables: [] };
+		const from = {
+			...base,
+			id: "a",
+			createdAt: 1000,
+			indexes: [
+				{ table: "tasks", name: "by_project", fields: ["projectId", "status"], type: "by_field" as const },
+				{ table: "tasks", name: "by_owner", fields: ["ownerId"], type: "by_field" as const },
+			],
+			relations: [{ fromTable: "tasks", fromFieldPath: "projectId", toTable: "projects", confidence: 1, source: "inferred" as const }],
+		};
+		const to = {
+			...base,
+			id: "b",
+			createdAt: 2000,
+			indexes: [
+				{ table: "tasks", name: "by_project", fields: ["status", "projectId"], type: "by_field" as const },
+			],
+			relations: [],
+		};
+
+		const drift = computeDrift(from, to);
+		assert.deepStrictEqual(
+			drift.indexDiffs.map((d) => [d.name, d.change]),
+			[["by_owner", "removed"], ["by_project", "fields_changed"]]
+		);
+		assert.deepStrictEqual(drift.relationDiffs.map((d) => d.change), ["removed"]);
+		assert.strictEqual(drift.summary, "2 index change(s), 1 relation change(s).");
+	});
+
+	test("Drift pairs similar removed and added fields as renames", () => {
+		const field = (path: string, optionalRate = 0) => ({
+			path, types: ["string"], optionalRate, sampleCount: 10, confidence: 1,
+		});
+		const snapshot = (id: string, fields: ReturnType<typeof field>[]) => ({
+			id, deploymentId: "dep1", createdAt: 0, relations: [],
+			tables: [{ table: "users", fields, sampledDocs: 10, inferredAt: 0 }],
+		});
+
+		const drift = computeDrift(
+			snapshot("a", [field("user_name"), field("email"), field("bio")]),
+			snapshot("b", [field("userName"), field("email", 0.3), field("avatar")])
+		);
+		const changes = drift.tableDiffs[0].fieldDiffs.map((d) => [d.path, d.change, d.renamedFrom]);
+
+		assert.deepStrictEqual(changes, [
+			["avatar", "added", undefined],
+			["bio", "removed", undefined],
+			["email", "optionality_changed", undefined],
+			["userName", "possibly_renamed", "user_name"],
+		]);
+
+		// A stray missing document, or declared against sampled optionality, isn't drift
+		const declared = { ...field("email"), validator: { kind: "string" as const, optional: true } };
+		assert.strictEqual(
+			computeDrift(snapshot("a", [field("email")]), snapshot("b", [field("email", 0.02)])).tableDiffs.length,
+			0
+		);
+		assert.strictEqual(
+			computeDrift(snapshot("a", [field("email")]), snapshot("b", [declared])).tableDiffs.length,
+			0
+		);
+	});
+
+	test("Drift timeline tracks each field across snapshots", () => {
+		const snapshot = (id: string, createdAt: number, fields: [string, string, number?][]) => ({
+			id, deploymentId: "dep1", createdAt, relations: [],
+			tables: [{
+				table: "tasks",
+				fields: fields.map(([path, type, optionalRate = 0]) => ({ path, types: [type], optionalRate, sampleCount: 1, confidence: 1 })),
+				sampledDocs: 1,
+				inferredAt: createdAt,
+			}],
+		});
+
+		const timeline = buildDriftTimeline([
+			snapshot("c", 3000, [["title", "number", 0.5]]),
+			snapshot("a", 1000, [["title", "string"], ["due", "number"]]),
+			snapshot("b", 2000, [["title", "string"], ["due", "string"]]),
+		]);
+		const due = timeline.tables[0].fields.find((f) => f.path === "due");
+
+		assert.deepStrictEqual(timeline.points.map((p) => p.snapshotId), ["a", "b", "c"]);
+		assert.strictEqual(timeline.steps.length, 2);
+		assert.deepStrictEqual(due?.types, [["number"], ["string"], null]);
+		assert.deepStrictEqual(due?.changes, [[], ["type_changed"], ["removed"]]);
+		// Retyped and made optional in the same step keeps both
+		assert.deepStrictEqual(
+			timeline.tables[0].fields.find((f) => f.path === "title")?.changes,
+			[[], [], ["type_changed", "optionality_changed"]]
+		);
+	});
+
+	test("Parser keeps every field after nested objects and reads index chains", async () => {
+		const schema = [
+			'import { defineSchema, defineTable } from "convex/server";',
+			'import { v } from "convex/values";',
+			"export default defineSchema({",
+			"  users: defineTable({",
+			"    address: v.object({ city: v.string(), geo: v.object({ lat: v.number() }) }),",
+			"    tags: v.array(v.string()),",
+			'    role: v.union(v.literal("admin"), v.literal("member")),',
+			"    nickname: v.optional(v.string()),",
+			'  }).index("by_role", ["role"]).index("by_city_role", ["address.city", "role"]),',
+			"});",
+		].join("\n");
+
+		const result = await parseSchemaFromSources("/repo/convex/schema.ts", async (filePath) =>
+			filePath === "/repo/convex/schema.ts" ? schema : undefined
+		);
+		const fields = result.tables[0].fields;
+
+		assert.deepStrictEqual(
+			fields.map((f) => f.path),
+			["address", "address.city", "address.geo", "address.geo.lat", "tags", "tags[]", "role", "nickname"]
+		);
+		assert.strictEqual(fields.find((f) => f.path === "nickname")?.validator?.optional, true);
+		assert.deepStrictEqual(
+			result.indexes.map((i) => [i.name, i.fields]),
+			[["by_role", ["role"]], ["by_city_role", ["address.city", "role"]]]
+		);
+	});
+
+	test("Parser records where tables, fields, indexes and relations are declared", async () => {
+		const sources: Record<string, string> = {
+			"/repo/convex/schema.ts": [
+				'import { defineSchema, defineTable } from "convex/server";',
+				'import { v } from "convex/values";',
+				'import { ownerFields } from "./fields";',
+				"export default defineSchema({",
+				"  tasks: defineTable({",
+				"    title: v.string(),",
+				"    tags: v.array(v.string()),",
+				"    ...ownerFields,",
+				'  }).index("by_owner", ["ownerId"]),',
+				"});",
+			].join("\n"),
+			"/repo/convex/fields.ts": [
+				'import { v } from "convex/values";',
+				"",
+				"export const ownerFields = {",
+				'  ownerId: v.id("users"),',
+				"};",
+			].join("\n"),
+		};
+
+		const result = await parseSchemaFromSources(
+			"/repo/convex/schema.ts",
+			async (filePath) => sources[filePath],
+			["/repo/convex/fields.ts"]
+		);
+		const at = (file: string, line: number, column: number, endLine: number, endColumn: number) =>
+			({ file: vscode.Uri.file(`/repo/convex/${file}`).fsPath, line, column, endLine, endColumn });
+		const field = (path: string) => result.tables[0].fields.find((f) => f.path === path)?.location;
+
+		// Zero-based, as VS Code ranges are
+		assert.deepStrictEqual(result.tables[0].location, at("schema.ts", 4, 2, 8, 35));
+		assert.deepStrictEqual(field("title"), at("schema.ts", 5, 4, 5, 21));
+		// Array elements point at their array's property
+		assert.deepStrictEqual(field("tags[]"), at("schema.ts", 6, 4, 6, 29));
+		// Spread fields point into the file they're declared in
+		assert.deepStrictEqual(field("ownerId"), at("fields.ts", 3, 2, 3, 24));
+		assert.deepStrictEqual(result.indexes[0].location, at("schema.ts", 8, 5, 8, 35));
+		assert.deepStrictEqual(result.relations[0].location, at("fields.ts", 3, 11, 3, 24));
+	});
+
+	test("Parser expands spread table maps and marks their origin", async () => {
+		const sources: Record<string, string> = {
+			"/repo/convex/schema.ts": [
+				'import { defineSchema, defineTable } from "convex/server";',
+				'import { authTables } from "@convex-dev/auth/server";',
+				'import { billingTables } from "./billing";',
+				'import { v } from "convex/values";',
+				"export default defineSchema({",
+				"  ...authTables,",
+				"  ...billingTables,",
+				"  projects: defineTable({ name: v.string() }),",
+				"});",
+			].join("\n"),
+			"/repo/convex/billing.ts": [
+				'import { defineTable } from "convex/server";',
+				'import { v } from "convex/values";',
+				"export const billingTables = { invoices: defineTable({ total: v.number() }) };",
+			].join("\n"),
+		};
+
+		const result = await parseSchemaFromSources(
+			"/repo/convex/schema.ts",
+			async (filePath) => sources[filePath],
+			["/repo/convex/billing.ts"]
+		);
+		const origin = (table: string) => result.tables.find((t) => t.table === table)?.origin;
+
+		assert.ok(result.tables.some((t) => t.table === "projects"));
+		assert.deepStrictEqual(origin("invoices"), { exportName: "billingTables", module: "./billing", library: false });
+		assert.strictEqual(origin("users")?.exportName, "authTables");
+		assert.strictEqual(origin("users")?.library, true);
+		assert.strictEqual(origin("projects"), undefined);
+	});
+
+	test("Parser follows parent-directory imports, tsconfig path aliases and spread fields", async () => {
+		const sources: Record<string, string> = {
+			"/repo/tsconfig.json": JSON.stringify({ compilerOptions: { baseUrl: ".", paths: { "@/*": ["src/*"] } } }),
+			"/repo/convex/schema.ts": [
+				'import { defineSchema, defineTable } from "convex/server";',
+				'import { v } from "convex/values";',
+				'import { sharedFields } from "../lib/fields";',
+				'import { statusValidator } from "@/shared/validators";',
+				"export default defineSchema({",
+				"  tasks: defineTable({ ...sharedFields, title: v.string(), status: statusValidator }),",
+				"});",
+			].join("\n"),
+			"/repo/lib/fields.ts": [
+				'import { v } from "convex/values";',
+				"export const sharedFields = { createdBy: v.string(), archived: v.optional(v.boolean()) };",
+			].join("\n"),
+			"/repo/src/shared/validators.ts": [
+				'import { v } from "convex/values";',
+				'export const statusValidator = v.union(v.literal("open"), v.literal("done"));',
+			].join("\n"),
+		};
+
+		const result = await parseSchemaFromSources(
+			"/repo/convex/schema.ts",
+			async (filePath) => sources[filePath],
+			["/repo/lib/fields.ts", "/repo/src/shared/validators.ts"]
+		);
+		const fields = result.tables[0].fields;
+
+		assert.deepStrictEqual(fields.map((f) => f.path).sort(), ["archived", "createdBy", "status", "title"]);
+		assert.strictEqual(fields.find((f) => f.path === "archived")?.validator?.optional, true);
+		assert.strictEqual(fields.find((f) => f.path === "status")?.validator?.kind, "union");
+	});
+
+	test("Schema diagnostics flag dangling relations, missing index fields and redundant indexes", async () => {
+		const schema = [
+			'import { defineSchema, defineTable } from "convex/server";',
+			'import { v } from "convex/values";',
+			"export default defineSchema({",
+			"  tasks: defineTable({",
+			"    title: v.string(),",
+			"    projectId: v.id(\"projects\"),",
+			"    teamId: v.id(\"teams\"),",
+			"    fileId: v.id(\"_storage\"),",
+			"  })",
+			'    .index("by_project", ["projectId"])',
+			'    .index("by_project_title", ["projectId", "title"])',
+			'    .index("by_title", ["title"])',
+			'    .index("by_title_again", ["title"])',
+			'    .index("by_owner", ["ownerId", "_creationTime"])',
+			'    .searchIndex("search_title", { searchField: "title", filterFields: ["status"] }),',
+			"  projects: defineTable({ name: v.string() }),",
+			"});",
+		].join("\n");
+		const result = await parseSchemaFromSources("/repo/convex/schema.ts", async (filePath) =>
+			filePath === "/repo/convex/schema.ts" ? schema : undefined
+		);
+		const indexes = result.indexes.filter((i) => i.table === "tasks");
+		const byName = (name: string) => indexes.find((i) => i.name === name)!;
+
+		// System tables such as _storage are valid targets
+		assert.deepStrictEqual(
+			checkRelations(result).map((d) => [d.literal, d.location.line, d.severity]),
+			[["teams", 6, vscode.DiagnosticSeverity.Error]]
+		);
+
+		assert.strictEqual(findCoveringIndex(byName("by_project"), indexes)?.name, "by_project_title");
+		assert.strictEqual(findCoveringIndex(byName("by_project_title"), indexes), undefined);
+		// Of two identical indexes only the later one is reported
+		assert.strictEqual(findCoveringIndex(byName("by_title"), indexes), undefined);
+		assert.strictEqual(findCoveringIndex(byName("by_title_again"), indexes)?.name, "by_title");
+		assert.strictEqual(findCoveringIndex(byName("search_title"), indexes), undefined);
+
+		const table = result.tables.find((t) => t.table === "tasks")!;
+		assert.deepStrictEqual(
+			checkIndexes(table, indexes).map((d) => [d.literal, d.severity, d.message]),
+			[
+				["by_project", vscode.DiagnosticSeverity.Warning, 'Index "by_project" is a prefix of "by_project_title" and is likely redundant.'],
+				["by_title_again", vscode.DiagnosticSeverity.Warning, 'Index "by_title_again" has the same fields as "by_title".'],
+				["ownerId", vscode.DiagnosticSeverity.Error, 'Index "by_owner" references field "ownerId", which is not in table "tasks".'],
+				["status", vscode.DiagnosticSeverity.Error, 'Search index "search_title" filters on field "status", which is not in table "tasks".'],
+			]
+		);
+		const duplicate = { ...byName("by_owner"), fields: ["title"] };
+		assert.deepStrictEqual(
+			checkIndexes(table, [...indexes, duplicate])
+				.filter((d) => d.message.startsWith("Duplicate index name"))
+				.map((d) => d.literal),
+			["by_owner"]
+		);
+	});
+
+	test("Schema is parsed from sources outside the workspace, following imports", async () => {
+		const sources: Record<string, string> = {
+			"/repo/convex/schema.ts": [
+				'import { defineSchema, defineTable } from "convex/server";',
+				'import { taskFields } from "./validators";',
+				"export default defineSchema({ tasks: defineTable(taskFields) });",
+			].join("\n"),
+			"/repo/convex/validators.ts": [
+				'import { v } from "convex/values";',
+				"export const taskFields = { title: v.string(), done: v.optional(v.boolean()) };",
+			].join("\n"),
+		};
+
+		const result = await parseSchemaFromSources(
+			"/repo/convex/schema.ts",
+			async (filePath) => sources[filePath],
+			["/repo/convex/validators.ts"]
+		);
+
+		assert.deepStrictEqual(result.tables.map((t) => t.table), ["tasks"]);
+		assert.deepStrictEqual(result.tables[0].fields.map((f) => f.path).sort(), ["done", "title"]);
+	});
+
+	test("Files are read at a git revision in one batch, including root-level schemas", async () => {
+		const repo = fs.mkdtempSync(path.join(os.tmpdir(), "exconvex-git-"));
+		const git = (...args: string[]) =>
+			execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], { cwd: repo });
+		try {
+			git("init", "-q");
+			fs.mkdirSync(path.join(repo, "docs"));
+			fs.writeFileSync(path.join(repo, "docs", "notes.md"), "Größe: 10 — ✓\n");
+			fs.writeFileSync(
+				path.join(repo, "schema.ts"),
+				[
+					'import { defineSchema, defineTable } from "convex/server";',
+					'import { fields } from "./felder";',
+					"export default defineSchema({ tasks: defineTable(fields) });",
+				].join("\n")
+			);
+			fs.writeFileSync(
+				path.join(repo, "felder.ts"),
+				'import { v } from "convex/values";\n// Überschrift\nexport const fields = { title: v.string() };\n'
+			);
+			git("add", "-A");
+			git("commit", "-qm", "first");
+			// The working tree moves on; the revision still has the old files
+			fs.renameSync(path.join(repo, "felder.ts"), path.join(repo, "fëlder.ts"));
+			fs.writeFileSync(
+				path.join(repo, "schema.ts"),
+				'import { fields } from "./fëlder";\nexport default defineSchema({ tasks: defineTable(fields) });\n'
+			);
+			git("add", "-A");
+			git("commit", "-qm", "second");
+			// Only the revision has it, so it must come from the ls-tree listing
+			fs.rmSync(path.join(repo, "fëlder.ts"));
+
+			const files = await readFilesAtRevision(repo, "HEAD~1", ["docs/notes.md", "missing.ts", "docs", "felder.ts"]);
+			// Missing paths and directories are left out; multi-byte text survives
+			assert.deepStrictEqual([...files.keys()], ["docs/notes.md", "felder.ts"]);
+			assert.strictEqual(files.get("docs/notes.md"), "Größe: 10 — ✓\n");
+			assert.ok(files.get("felder.ts")?.includes("// Überschrift"));
+
+			for (const ref of ["HEAD~1", "HEAD"]) {
+				const result = await parseSchemaAtRevision(repo, ref, path.join(repo, "schema.ts"));
+				assert.deepStrictEqual(result.tables[0]?.fields.map((f) => f.path), ["title"], ref);
+			}
+		} finally {
+			fs.rmSync(repo, { recursive: true, force: true });
+		}
+	});
+
+	test("Breaking changes are classified against sampled documents", () => {
+		const status = {
+			kind: "union" as const, optional: false,
+			members: [{ kind: "literal" as const, optional: false, value: "open" }, { kind: "literal" as const, optional: false, value: "done" }],
+		};
+		const schema = {
+			table: "tasks", sampledDocs: 0, inferredAt: 0,
+			fields: [
+				{ path: "title", types: ["string"], optionalRate: 0, sampleCount: 0, confidence: 1, validator: { kind: "string" as const, optional: false } },
+				{ path: "status", types: ["\"open\"", "\"done\""], optionalRate: 0, sampleCount: 0, confidence: 1, validator: status },
+				{ path: "owner", types: ["string"], optionalRate: 0, sampleCount: 0, confidence: 1, validator: { kind: "string" as const, optional: false } },
+				{ path: "notes", types: ["string"], optionalRate: 0, sampleCount: 0, confidence: 1, validator: { kind: "string" as const, optional: true } },
+			],
+		};
+		const docs = [
+			{ _id: "1", title: "a", status: "open", owner: "x" },
+			{ _id: "2", title: "b", status: "archived", user: "y", note: "z" },
+		];
+
+		const result = classifyTableDiff({
+			table: "tasks",
+			change: "modified",
+			fieldDiffs: [
+				{ path: "title", change: "optionality_changed", oldOptional: true, newOptional: false },
+				{ path: "status", change: "type_changed" },
+				{ path: "owner", change: "possibly_renamed", renamedFrom: "user" },
+				{ path: "notes", change: "possibly_renamed", renamedFrom: "note" },
+			],
+		}, schema, docs);
+
+		// Document 2 lacks the now-required "owner", so copying "user" over can't happen in time
+		assert.deepStrictEqual(
+			result.fieldDiffs.map((d) => d.risk),
+			["safe", "will_fail_push", "will_fail_push", "needs_migration"]
+		);
+		assert.strictEqual(result.risk, "will_fail_push");
+		assert.strictEqual(
+			classifyTableDiff({ table: "old", change: "removed", fieldDiffs: [] }, undefined, [], 3).risk,
+			"needs_migration"
+		);
+	});
+
+	test("Migration scaffold groups a drift's field changes per table", () => {
+		const name = migrationModuleName(new Date(2024, 0, 31, 14, 25, 0));
+		const source = generateMigrationModule({
+			fromSnapshotId: "a", toSnapshotId: "b", indexDiffs: [], relationDiffs: [], summary: "",
+			tableDiffs: [
+				{ table: "tasks", change: "modified", fieldDiffs: [
+					{ path: "legacy", change: "removed", oldTypes: ["string"] },
+					{ path: "owner", change: "possibly_renamed", renamedFrom: "user" },
+					{ path: "notes", change: "added", newTypes: ["string"] },
+				] },
+				{ table: "tags", change: "modified", fieldDiffs: [{ path: "color", change: "added" }] },
+			],
+		}, `migrations/${name}`);
+
+		assert.strictEqual(name, "drift_20240131_142500");
+		assert.ok(source?.includes("export const migrateTasks = internalMutation"));
+		assert.ok(source?.includes("internal.migrations.drift_20240131_142500.migrateTasks"));
+		assert.ok(source?.includes("patch.legacy = undefined;"));
+		assert.ok(source?.includes("patch.owner = data.user;"));
+		assert.ok(!source?.includes("migrateTags"));
+		assert.strictEqual(
+			generateMigrationModule({
+				fromSnapshotId: "a", toSnapshotId: "b", indexDiffs: [], relationDiffs: [], summary: "",
+				tableDiffs: [{ table: "tags", change: "added", fieldDiffs: [] }],
+			}, "migrations/none"),
+			undefined
+		);
+	});
+
+	test("Relation overrides add, remove and take over edges", () => {
+		const edge = (fromTable: string, fromFieldPath: string, toTable: string) => ({
+			fromTable, fromFieldPath, toTable, confidence: 0.6, source: "inferred" as const,
+		});
+
+		const merged = applyRelationOverrides(
+			[edge("tasks", "ownerId", "users"), edge("tasks", "projectId", "projects"), edge("comments", "taskId", "tasks")],
+			[
+				{ fromTable: "tasks", fromFieldPath: "projectId", toTable: "projects", action: "remove" },
+				{ fromTable: "comments", fromFieldPath: "taskId", toTable: "tasks", action: "add" },
+				{ fromTable: "tasks", fromFieldPath: "teamId", toTable: "teams", action: "add" },
+				// The latest override for an edge wins
+				{ fromTable: "tasks", fromFieldPath: "teamId", toTable: "teams", action: "remove" },
+				{ fromTable: "tasks", fromFieldPath: "teamId", toTable: "teams", action: "add" },
+			]
+		);
+
+		assert.deepStrictEqual(
+			merged.map((r) => [`${r.fromTable}.${r.fromFieldPath}->${r.toTable}`, r.source, r.confidence]),
+			[
+				["tasks.ownerId->users", "inferred", 0.6],
+				["comments.taskId->tasks", "manual", 1],
+				["tasks.teamId->teams", "manual", 1],
+			]
+		);
+	});
 });
@@ -0,0 +1,54 @@
+import * as vscode from "vscode";
+import { WebviewPanelManager } from "./WebviewPanelManager";
+import type { FromWebviewMessage } from "../shared/messages";
+import type { ConformanceReportDto } from "../shared/types";
+
+export class ConformancePanel extends WebviewPanelManager {
+  private _currentReport: ConformanceReportDto | undefined;
+  private _onRefreshRequest = new vscode.EventEmitter<void>();
+  readonly onRefreshRequest = this._onRefreshRequest.event;
+  private _onOpenDocument = new vscode.EventEmitter<{ table: string; id: string }>();
+  readonly onOpenDocument = this._onOpenDocument.event;
+
+  constructor(extensionUri: vscode.Uri) {
+    super(extensionUri, "exconvex.conformance", "Schema Conformance");
+  }
+
+  protected getEntryPoint(): string {
+    return "conformance/index.js";
+  }
+
+  protected onMessage(message: FromWebviewMessage): void {
+    switch (message.type) {
+      case "ready":
+        if (this._currentReport) {
+          this.postMessage({
+            type: "conformanceReport",
+            payload: this._currentReport,
+          });
+        }
+        break;
+      case "refresh":
+        this._onRefreshRequest.fire();
+        break;
+      case "openDocument":
+        this._onOpenDocument.fire(message.payload);
+        break;
+    }
+  }
+
+  protected onDispose(): void {
+    this._currentReport = undefined;
+  }
+
+  updateReport(report: ConformanceReportDto): void {
+    this._currentReport = report;
+    this.postMessage({ type: "conformanceReport", payload: report });
+  }
+
+  dispose(): void {
+    this._onRefreshRequest.dispose();
+    this._onOpenDocument.dispose();
+    super.dispose();
+  }
+}
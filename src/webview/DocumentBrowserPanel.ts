@@ -2,14 +2,18 @@ import * as vscode from "vscode";
 import { WebviewPanelManager } from "./WebviewPanelManager";
 import type { FromWebviewMessage } from "../shared/messages";
 import type { ConvexDataClient } from "../data/convexClient";
-import { getParsedSchema } from "../convexProject";
+import { getSamplingStrategy, sampleDocs } from "../data/sampling";
+import type { TableSchema, ValidatorNode } from "../shared/types";
+import { isTopLevelField } from "../schema/fieldPaths";
 
 interface TableData {
   table: string;
   docs: unknown[];
   totalCount: number;
   fieldOrder?: string[];
-  schema?: Record<string, { optional: boolean, type: string }>;
+  schema?: Record<string, ValidatorNode>;
+  /** Document to select once the table is shown. */
+  focusId?: string;
 }
 
 export class DocumentBrowserPanel extends WebviewPanelManager {
@@ -90,13 +94,29 @@ export class DocumentBrowserPanel extends WebviewPanelManager {
 
   protected onDispose(): void {
     this._currentTable = undefined;
+    this._tableSchema = undefined;
   }
 
-  private _fieldOrder: string[] | undefined;
+  /**
+   * Replace the schema of the open table after a schema refresh.
+   */
+  updateSchema(tables: TableSchema[]): void {
+    if (!this._currentTable) {return;}
+    this._tableSchema = tables.find((t) => t.table === this._currentTable);
+  }
+
+  private _tableSchema: TableSchema | undefined;
+  private _focusId: string | undefined;
 
-  async openTable(table: string, totalCount?: number, fieldOrder?: string[]): Promise<void> {
+  async openTable(
+    table: string,
+    totalCount?: number,
+    tableSchema?: TableSchema,
+    focusId?: string
+  ): Promise<void> {
     this._currentTable = table;
-    this._fieldOrder = fieldOrder;
+    this._tableSchema = tableSchema;
+    this._focusId = focusId;
 
     if (!this.panel) {
       this.show(vscode.ViewColumn.One);
@@ -155,26 +175,39 @@ export class DocumentBrowserPanel extends WebviewPanelManager {
         .getConfiguration("exconvex")
         .get<number>("sampleLimit", 100);
 
-      const docs = await this._dataClient.listDocs(table, limit);
-
-      const totalCount = knownCount ?? docs.length;
+      // A full scan is for analysis; the grid stays within sampleLimit
+      const strategy = getSamplingStrategy();
+      const docs: unknown[] = await sampleDocs(this._dataClient, table, limit, {
+        strategy: strategy === "fullScan" ? "oldest" : strategy,
+      });
 
-      let schemaForTable = undefined;
-      try {
-        const fullSchema = await getParsedSchema();
-        if (fullSchema && fullSchema[table]) {
-          schemaForTable = fullSchema[table];
+      // The focused document may be outside the sampled range
+      const focusId = this._focusId;
+      this._focusId = undefined;
+      if (
+        focusId &&
+        !docs.some((d) => (d as Record<string, unknown>)._id === focusId)
+      ) {
+        const focused = await this._dataClient.getDoc(table, focusId);
+        if (focused) {
+          docs.unshift(focused);
         }
-      } catch (err) {
-        console.warn("Failed to retrieve schema for table", table, err);
       }
 
+      const totalCount = knownCount ?? docs.length;
+
+      const tableSchema =
+        this._tableSchema?.table === table ? this._tableSchema : undefined;
+
       const data: TableData = {
         table,
         docs: docs as Record<string, unknown>[],
         totalCount,
-        fieldOrder: this._fieldOrder,
-        schema: schemaForTable,
+        fieldOrder: tableSchema?.fields
+          .filter((f) => isTopLevelField(f.path))
+          .map((f) => f.path),
+        schema: tableSchema ? toValidatorMap(tableSchema) : undefined,
+        focusId,
       };
 
       this.panel?.webview.postMessage({
@@ -212,3 +245,13 @@ export class DocumentBrowserPanel extends WebviewPanelManager {
     super.dispose();
   }
 }
+
+function toValidatorMap(schema: TableSchema): Record<string, ValidatorNode> {
+  const validators: Record<string, ValidatorNode> = {};
+  for (const field of schema.fields) {
+    if (field.validator) {
+      validators[field.path] = field.validator;
+    }
+  }
+  return validators;
+}
@@ -1,12 +1,19 @@
 import * as vscode from "vscode";
 import { WebviewPanelManager } from "./WebviewPanelManager";
 import type { FromWebviewMessage } from "../shared/messages";
-import type { SchemaDriftDto } from "../shared/types";
+import type { DriftTimelineDto, SchemaDriftDto } from "../shared/types";
 
+/**
+ * Shows either a single pairwise drift or the timeline across every
+ * snapshot, whichever was opened last. Refresh requests reload the same.
+ */
 export class DriftTimelinePanel extends WebviewPanelManager {
   private _currentDrift: SchemaDriftDto | undefined;
+  private _currentTimeline: DriftTimelineDto | undefined;
   private _onRefreshRequest = new vscode.EventEmitter<void>();
   readonly onRefreshRequest = this._onRefreshRequest.event;
+  private _onGenerateMigration = new vscode.EventEmitter<SchemaDriftDto>();
+  readonly onGenerateMigration = this._onGenerateMigration.event;
 
   constructor(extensionUri: vscode.Uri) {
     super(extensionUri, "exconvex.driftTimeline", "Drift Timeline");
@@ -19,7 +26,12 @@ export class DriftTimelinePanel extends WebviewPanelManager {
   protected onMessage(message: FromWebviewMessage): void {
     switch (message.type) {
       case "ready":
-        if (this._currentDrift) {
+        if (this._currentTimeline) {
+          this.postMessage({
+            type: "driftTimeline",
+            payload: this._currentTimeline,
+          });
+        } else if (this._currentDrift) {
           this.postMessage({
             type: "driftDiff",
             payload: this._currentDrift,
@@ -30,26 +42,43 @@ export class DriftTimelinePanel extends WebviewPanelManager {
         this._onRefreshRequest.fire();
         break;
       case "export":
-        if (message.format === "json" && this._currentDrift) {
+        if (message.format === "json") {
           this._exportJson();
         }
         break;
+      case "generateMigration":
+        this._onGenerateMigration.fire(message.payload);
+        break;
     }
   }
 
   protected onDispose(): void {
     this._currentDrift = undefined;
+    this._currentTimeline = undefined;
+  }
+
+  /** Whether the panel is showing the multi-snapshot timeline. */
+  get showsTimeline(): boolean {
+    return this._currentTimeline !== undefined;
   }
 
   updateDrift(drift: SchemaDriftDto): void {
     this._currentDrift = drift;
+    this._currentTimeline = undefined;
     this.postMessage({ type: "driftDiff", payload: drift });
   }
 
+  updateTimeline(timeline: DriftTimelineDto): void {
+    this._currentTimeline = timeline;
+    this._currentDrift = undefined;
+    this.postMessage({ type: "driftTimeline", payload: timeline });
+  }
+
   private async _exportJson(): Promise<void> {
-    if (!this._currentDrift) {return;}
+    const current = this._currentTimeline ?? this._currentDrift;
+    if (!current) {return;}
     const doc = await vscode.workspace.openTextDocument({
-      content: JSON.stringify(this._currentDrift, null, 2),
+      content: JSON.stringify(current, null, 2),
       language: "json",
     });
     await vscode.window.showTextDocument(doc);
@@ -57,6 +86,7 @@ export class DriftTimelinePanel extends WebviewPanelManager {
 
   dispose(): void {
     this._onRefreshRequest.dispose();
+    this._onGenerateMigration.dispose();
     super.dispose();
   }
 }
@@ -0,0 +1,55 @@
+import * as vscode from "vscode";
+import { WebviewPanelManager } from "./WebviewPanelManager";
+import type { FromWebviewMessage } from "../shared/messages";
+import type { FieldProfileDto } from "../shared/types";
+
+export class FieldProfilePanel extends WebviewPanelManager {
+  private _currentProfile: FieldProfileDto | undefined;
+  private _onRefreshRequest = new vscode.EventEmitter<void>();
+  readonly onRefreshRequest = this._onRefreshRequest.event;
+
+  constructor(extensionUri: vscode.Uri) {
+    super(extensionUri, "exconvex.fieldProfile", "Field Profile");
+  }
+
+  protected getEntryPoint(): string {
+    return "fieldProfile/index.js";
+  }
+
+  protected onMessage(message: FromWebviewMessage): void {
+    switch (message.type) {
+      case "ready":
+        if (this._currentProfile) {
+          this.postMessage({
+            type: "fieldProfile",
+            payload: this._currentProfile,
+          });
+        }
+        break;
+      case "refresh":
+        this._onRefreshRequest.fire();
+        break;
+    }
+  }
+
+  protected onDispose(): void {
+    this._currentProfile = undefined;
+  }
+
+  get currentProfile(): FieldProfileDto | undefined {
+    return this._currentProfile;
+  }
+
+  updateProfile(profile: FieldProfileDto): void {
+    this._currentProfile = profile;
+    if (this.panel) {
+      this.panel.title = `${profile.table}.${profile.path} — Field Profile`;
+    }
+    this.postMessage({ type: "fieldProfile", payload: profile });
+  }
+
+  dispose(): void {
+    this._onRefreshRequest.dispose();
+    super.dispose();
+  }
+}
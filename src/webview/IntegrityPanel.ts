@@ -0,0 +1,81 @@
+import * as vscode from "vscode";
+import { WebviewPanelManager } from "./WebviewPanelManager";
+import type { FromWebviewMessage } from "../shared/messages";
+import type { IntegrityReportDto, OrphanFixDto } from "../shared/types";
+
+export class IntegrityPanel extends WebviewPanelManager {
+  private _currentReport: IntegrityReportDto | undefined;
+  private _onRefreshRequest = new vscode.EventEmitter<void>();
+  readonly onRefreshRequest = this._onRefreshRequest.event;
+  private _onOpenDocument = new vscode.EventEmitter<{ table: string; id: string }>();
+  readonly onOpenDocument = this._onOpenDocument.event;
+  private _onFixOrphan = new vscode.EventEmitter<OrphanFixDto>();
+  readonly onFixOrphan = this._onFixOrphan.event;
+
+  constructor(extensionUri: vscode.Uri) {
+    super(extensionUri, "exconvex.integrity", "Referential Integrity");
+  }
+
+  protected getEntryPoint(): string {
+    return "integrity/index.js";
+  }
+
+  protected onMessage(message: FromWebviewMessage): void {
+    switch (message.type) {
+      case "ready":
+        if (this._currentReport) {
+          this.postMessage({
+            type: "integrityReport",
+            payload: this._currentReport,
+          });
+        }
+        break;
+      case "refresh":
+        this._onRefreshRequest.fire();
+        break;
+      case "openDocument":
+        this._onOpenDocument.fire(message.payload);
+        break;
+      case "fixOrphan":
+        this._onFixOrphan.fire(message.payload);
+        break;
+    }
+  }
+
+  protected onDispose(): void {
+    this._currentReport = undefined;
+  }
+
+  updateReport(report: IntegrityReportDto): void {
+    this._currentReport = report;
+    this.postMessage({ type: "integrityReport", payload: report });
+  }
+
+  /**
+   * Drop orphans a fix has dealt with, without rescanning. Clearing a
+   * field resolves that relation only; deleting the document resolves
+   * every relation it was listed under.
+   */
+  resolveOrphan(fix: OrphanFixDto): void {
+    if (!this._currentReport) {return;}
+    this.updateReport({
+      ...this._currentReport,
+      relations: this._currentReport.relations.map((relation) =>
+        relation.fromTable === fix.table &&
+        (fix.action === "delete" || relation.fromFieldPath === fix.field)
+          ? {
+              ...relation,
+              orphans: relation.orphans.filter((o) => o.documentId !== fix.id),
+            }
+          : relation
+      ),
+    });
+  }
+
+  dispose(): void {
+    this._onRefreshRequest.dispose();
+    this._onOpenDocument.dispose();
+    this._onFixOrphan.dispose();
+    super.dispose();
+  }
+}
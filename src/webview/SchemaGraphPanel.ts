@@ -1,12 +1,14 @@
 import * as vscode from "vscode";
 import { WebviewPanelManager } from "./WebviewPanelManager";
 import type { FromWebviewMessage } from "../shared/messages";
-import type { SchemaGraphDto } from "../shared/types";
+import type { RelationOverrideDto, SchemaGraphDto } from "../shared/types";
 
 export class SchemaGraphPanel extends WebviewPanelManager {
   private _currentData: SchemaGraphDto | undefined;
   private _onRefreshRequest = new vscode.EventEmitter<void>();
   readonly onRefreshRequest = this._onRefreshRequest.event;
+  private _onRelationOverride = new vscode.EventEmitter<RelationOverrideDto>();
+  readonly onRelationOverride = this._onRelationOverride.event;
 
   constructor(extensionUri: vscode.Uri) {
     super(extensionUri, "exconvex.schemaGraph", "Schema Graph");
@@ -32,9 +34,10 @@ export class SchemaGraphPanel extends WebviewPanelManager {
       case "openFile":
         if (message.path) {
           const uri = vscode.Uri.file(message.path);
+          const column = (message.column ?? 1) - 1;
           vscode.window.showTextDocument(uri, {
             selection: message.line
-              ? new vscode.Range(message.line - 1, 0, message.line - 1, 0)
+              ? new vscode.Range(message.line - 1, column, message.line - 1, column)
               : undefined,
           });
         }
@@ -42,6 +45,9 @@ export class SchemaGraphPanel extends WebviewPanelManager {
       case "export":
         this._handleExport(message.format);
         break;
+      case "setRelationOverride":
+        this._onRelationOverride.fire(message.payload);
+        break;
     }
   }
 
@@ -72,6 +78,7 @@ export class SchemaGraphPanel extends WebviewPanelManager {
 
   dispose(): void {
     this._onRefreshRequest.dispose();
+    this._onRelationOverride.dispose();
     super.dispose();
   }
 }
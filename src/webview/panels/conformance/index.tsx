@@ -0,0 +1,173 @@
+import React, { useEffect, useState, useCallback } from "react";
+import { createRoot } from "react-dom/client";
+import type {
+  ConformanceIssue,
+  ConformanceReportDto,
+} from "../../../shared/types";
+import type { ToWebviewMessage } from "../../../shared/messages";
+import { onMessage, postMessage } from "../../lib/vscodeApi";
+import "./styles.css";
+
+type IssueKind = ConformanceIssue["kind"];
+
+const KIND_LABELS: Record<IssueKind, string> = {
+  extra_field: "Extra field",
+  missing_field: "Missing field",
+  wrong_type: "Wrong type",
+  invalid_literal: "Out-of-union literal",
+};
+
+function ConformanceApp() {
+  const [report, setReport] = useState<ConformanceReportDto | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMessage, setLoadingMessage] = useState("Checking data against schema...");
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<"all" | IssueKind>("all");
+
+  useEffect(() => {
+    postMessage({ type: "ready" });
+
+    return onMessage((msg: ToWebviewMessage) => {
+      switch (msg.type) {
+        case "conformanceReport":
+          setReport(msg.payload);
+          setLoading(false);
+          setError(null);
+          break;
+        case "loading":
+          setLoadingMessage(msg.payload.message);
+          setLoading(true);
+          break;
+        case "error":
+          setError(msg.payload.message);
+          setLoading(false);
+          break;
+      }
+    });
+  }, []);
+
+  const openDocument = useCallback((table: string, id: string) => {
+    postMessage({ type: "openDocument", payload: { table, id } });
+  }, []);
+
+  if (loading) {
+    return <div className="loading">{loadingMessage}</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="error">
+        <p>{error}</p>
+        <button onClick={() => postMessage({ type: "refresh" })}>Retry</button>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return <div className="empty-state">No report yet.</div>;
+  }
+
+  const allIssues = report.tables.flatMap((t) => t.issues);
+  const countOf = (kind: IssueKind) =>
+    allIssues.filter((i) => i.kind === kind).length;
+  const sampled = report.tables.reduce((sum, t) => sum + t.sampledDocs, 0);
+
+  return (
+    <div className="conformance-container">
+      <div className="summary-bar">
+        <span className="summary-total">
+          {allIssues.length} issues in {sampled} sampled documents
+        </span>
+        {(Object.keys(KIND_LABELS) as IssueKind[]).map((kind) => (
+          <span key={kind} className={`kind-count ${kind}`}>
+            {countOf(kind)} {KIND_LABELS[kind].toLowerCase()}
+          </span>
+        ))}
+      </div>
+
+      <div className="filter-bar">
+        {(["all", ...Object.keys(KIND_LABELS)] as ("all" | IssueKind)[]).map(
+          (kind) => (
+            <button
+              key={kind}
+              className={`filter-btn ${filter === kind ? "active" : ""}`}
+              onClick={() => setFilter(kind)}
+            >
+              {kind === "all" ? "all" : KIND_LABELS[kind]}
+            </button>
+          )
+        )}
+        <button
+          className="refresh-btn"
+          onClick={() => postMessage({ type: "refresh" })}
+        >
+          Re-check
+        </button>
+      </div>
+
+      {report.tables.map((table) => {
+        const issues =
+          filter === "all"
+            ? table.issues
+            : table.issues.filter((i) => i.kind === filter);
+        if (issues.length === 0 && table.undeclaredFields.length === 0) {
+          return null;
+        }
+        return (
+          <div key={table.table} className="table-section">
+            <div className="table-header">
+              <span className="table-name">{table.table}</span>
+              <span className="table-meta">
+                {issues.length} issues · {table.sampledDocs} sampled
+              </span>
+            </div>
+            {table.undeclaredFields.length > 0 && (
+              <div className="undeclared">
+                Undeclared fields seen in data:{" "}
+                {table.undeclaredFields.map((f) => (
+                  <code key={f.path}>
+                    {f.path} ({f.sampleCount}/{table.sampledDocs})
+                  </code>
+                ))}
+              </div>
+            )}
+            <table className="issue-table">
+              <tbody>
+                {issues.map((issue, i) => (
+                  <tr key={i} className={`issue-row ${issue.kind}`}>
+                    <td className="issue-kind">{KIND_LABELS[issue.kind]}</td>
+                    <td className="issue-path">{issue.path}</td>
+                    <td className="issue-detail">
+                      {issue.expected && <>expected <code>{issue.expected}</code></>}
+                      {issue.expected && issue.actual && ", "}
+                      {issue.actual && <>got <code>{issue.actual}</code></>}
+                    </td>
+                    <td>
+                      {issue.documentId && (
+                        <button
+                          className="doc-link"
+                          onClick={() => openDocument(issue.table, issue.documentId)}
+                        >
+                          {issue.documentId}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      })}
+
+      {allIssues.length === 0 && (
+        <div className="empty-state">
+          All sampled documents match the declared schema.
+        </div>
+      )}
+    </div>
+  );
+}
+
+const root = createRoot(document.getElementById("root")!);
+root.render(<ConformanceApp />);
@@ -1,5 +1,6 @@
 import React, { useEffect, useState, useCallback } from "react";
 import { createRoot } from "react-dom/client";
+import type { ValidatorNode } from "../../../shared/types";
 import { onMessage, postMessage } from "../../lib/vscodeApi";
 import "./styles.css";
 
@@ -13,7 +14,8 @@ interface TableData {
   docs: Record<string, unknown>[];
   totalCount: number;
   fieldOrder?: string[];
-  schema?: Record<string, { optional: boolean, type: string }>;
+  schema?: Record<string, ValidatorNode>;
+  focusId?: string;
 }
 
 function DocumentBrowserApp() {
@@ -38,7 +40,11 @@ function DocumentBrowserApp() {
         case "tableData": {
           const data = msg.payload as TableData;
           setTableData(data);
-          setSelectedDoc(null);
+          setSelectedDoc(
+            data.focusId
+              ? data.docs.find((d) => d._id === data.focusId) ?? null
+              : null
+          );
           setLoading(false);
           setError(null);
           setPage(0);
@@ -1,12 +1,27 @@
 import React, { useEffect, useState, useCallback } from "react";
 import { createRoot } from "react-dom/client";
-import type { SchemaDriftDto, TableDiff, FieldDiff } from "../../../shared/types";
+import type {
+  SchemaDriftDto,
+  TableDiff,
+  FieldDiff,
+  IndexDiff,
+  RelationDiff,
+  DriftTimelineDto,
+  DriftTimelinePoint,
+  TableTimeline,
+  ChangeRisk,
+} from "../../../shared/types";
 import type { ToWebviewMessage } from "../../../shared/messages";
 import { onMessage, postMessage } from "../../lib/vscodeApi";
 import "./styles.css";
 
 function DriftTimelineApp() {
   const [drift, setDrift] = useState<SchemaDriftDto | null>(null);
+  const [timeline, setTimeline] = useState<DriftTimelineDto | null>(null);
+  // Point the scrubber is on; the drift shown leads into it from the previous point
+  const [position, setPosition] = useState(1);
+  // Step opened from the timeline as a pairwise diff
+  const [openStep, setOpenStep] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedTables, setExpandedTables] = useState<Set<string>>(new Set());
@@ -18,6 +33,15 @@ function DriftTimelineApp() {
       switch (msg.type) {
         case "driftDiff":
           setDrift(msg.payload);
+          setTimeline(null);
+          setLoading(false);
+          setError(null);
+          break;
+        case "driftTimeline":
+          setTimeline(msg.payload);
+          setDrift(null);
+          setPosition(msg.payload.points.length - 1);
+          setOpenStep(null);
           setLoading(false);
           setError(null);
           break;
@@ -44,6 +68,12 @@ function DriftTimelineApp() {
     });
   }, []);
 
+  const openStepDiff = useCallback((step: number, table?: string) => {
+    setOpenStep(step);
+    setPosition(step + 1);
+    setExpandedTables(new Set(table ? [table] : []));
+  }, []);
+
   if (loading) {
     return <div className="loading">Loading drift data...</div>;
   }
@@ -57,35 +87,86 @@ function DriftTimelineApp() {
     );
   }
 
-  if (!drift || drift.tableDiffs.length === 0) {
+  if (timeline && openStep === null) {
+    return (
+      <TimelineView
+        timeline={timeline}
+        position={position}
+        onScrub={setPosition}
+        onOpenStep={openStepDiff}
+      />
+    );
+  }
+
+  const shown = timeline && openStep !== null ? timeline.steps[openStep] : drift;
+  const title =
+    timeline && openStep !== null
+      ? `${pointLabel(timeline.points[openStep])} → ${pointLabel(timeline.points[openStep + 1])}`
+      : drift?.fromLabel && drift.toLabel
+        ? `${drift.fromLabel} → ${drift.toLabel}`
+        : "Schema Drift";
+  const backButton = timeline && (
+    <button onClick={() => setOpenStep(null)}>← Timeline</button>
+  );
+
+  if (
+    !shown ||
+    shown.tableDiffs.length + shown.indexDiffs.length + shown.relationDiffs.length === 0
+  ) {
     return (
       <div className="empty-state">
         <p>No schema drift detected between snapshots.</p>
-        <button onClick={() => postMessage({ type: "refresh" })}>
-          Compare Snapshots
-        </button>
+        {backButton ?? (
+          <button onClick={() => postMessage({ type: "refresh" })}>
+            Compare Snapshots
+          </button>
+        )}
       </div>
     );
   }
 
-  const added = drift.tableDiffs.filter((t) => t.change === "added").length;
-  const removed = drift.tableDiffs.filter((t) => t.change === "removed").length;
-  const modified = drift.tableDiffs.filter((t) => t.change === "modified").length;
+  const added = shown.tableDiffs.filter((t) => t.change === "added").length;
+  const removed = shown.tableDiffs.filter((t) => t.change === "removed").length;
+  const modified = shown.tableDiffs.filter((t) => t.change === "modified").length;
+  const failing = shown.tableDiffs.filter((t) => t.risk === "will_fail_push").length;
+  const migrating = shown.tableDiffs.filter((t) => t.risk === "needs_migration").length;
 
   return (
     <div className="drift-container">
       <div className="drift-summary">
-        <h3>Schema Drift</h3>
-        <p className="summary-text">{drift.summary}</p>
+        <h3>{title}</h3>
+        <p className="summary-text">{shown.summary}</p>
         <div className="summary-counts">
           {added > 0 && <span className="count-badge added">+{added} tables</span>}
           {removed > 0 && <span className="count-badge removed">-{removed} tables</span>}
           {modified > 0 && <span className="count-badge modified">{modified} modified</span>}
+          {shown.indexDiffs.length > 0 && (
+            <span className="count-badge modified">{shown.indexDiffs.length} indexes</span>
+          )}
+          {shown.relationDiffs.length > 0 && (
+            <span className="count-badge modified">{shown.relationDiffs.length} relations</span>
+          )}
         </div>
+        {shown.riskCheckedAt && (
+          <div className="summary-counts risk-summary">
+            {failing > 0 && (
+              <span className="risk-badge will_fail_push">{failing} will fail push</span>
+            )}
+            {migrating > 0 && (
+              <span className="risk-badge needs_migration">{migrating} need migration</span>
+            )}
+            {failing + migrating === 0 && (
+              <span className="risk-badge safe">safe for live data</span>
+            )}
+            <span className="summary-text">
+              checked {new Date(shown.riskCheckedAt).toLocaleTimeString()}
+            </span>
+          </div>
+        )}
       </div>
 
       <div className="diff-list">
-        {drift.tableDiffs.map((td) => (
+        {shown.tableDiffs.map((td) => (
           <TableDiffCard
             key={td.table}
             diff={td}
@@ -95,8 +176,35 @@ function DriftTimelineApp() {
         ))}
       </div>
 
+      {shown.indexDiffs.length > 0 && (
+        <div className="diff-section">
+          <h4>Indexes</h4>
+          {shown.indexDiffs.map((d) => (
+            <IndexDiffRow key={`${d.table}.${d.name}`} diff={d} />
+          ))}
+        </div>
+      )}
+
+      {shown.relationDiffs.length > 0 && (
+        <div className="diff-section">
+          <h4>Relations</h4>
+          {shown.relationDiffs.map((d) => (
+            <RelationDiffRow
+              key={`${d.fromTable}.${d.fromFieldPath}->${d.toTable}`}
+              diff={d}
+            />
+          ))}
+        </div>
+      )}
+
       <div className="drift-toolbar">
+        {backButton}
         <button onClick={() => postMessage({ type: "refresh" })}>Refresh</button>
+        {modified > 0 && (
+          <button onClick={() => postMessage({ type: "generateMigration", payload: shown })}>
+            Generate Migration
+          </button>
+        )}
         <button onClick={() => postMessage({ type: "export", format: "json" })}>
           Export JSON
         </button>
@@ -105,6 +213,144 @@ function DriftTimelineApp() {
   );
 }
 
+function TimelineView({
+  timeline,
+  position,
+  onScrub,
+  onOpenStep,
+}: {
+  timeline: DriftTimelineDto;
+  position: number;
+  onScrub: (position: number) => void;
+  onOpenStep: (step: number, table?: string) => void;
+}) {
+  const { points, steps } = timeline;
+  const step = steps[position - 1];
+  const changedTables = timeline.tables.filter(
+    (t) =>
+      t.present.some((p) => p !== t.present[0]) ||
+      t.fields.some((f) => f.changes.some((c) => c.length > 0))
+  );
+
+  return (
+    <div className="drift-container">
+      <div className="drift-summary">
+        <h3>Drift Timeline</h3>
+        <p className="summary-text">
+          {points.length} snapshots, {pointLabel(points[0])} to{" "}
+          {pointLabel(points[points.length - 1])}
+        </p>
+        <input
+          className="scrubber"
+          type="range"
+          min={1}
+          max={points.length - 1}
+          value={position}
+          onChange={(e) => onScrub(Number(e.target.value))}
+        />
+        <div className="scrub-step">
+          <span className="scrub-range">
+            {pointLabel(points[position - 1])} → {pointLabel(points[position])}
+          </span>
+          <span className="summary-text">{step.summary}</span>
+          <button onClick={() => onOpenStep(position - 1)}>View diff</button>
+        </div>
+      </div>
+
+      <div className="diff-list">
+        {changedTables.map((table) => (
+          <TableHistory
+            key={table.table}
+            table={table}
+            points={points}
+            position={position}
+            onScrub={onScrub}
+            onOpenStep={onOpenStep}
+          />
+        ))}
+        {changedTables.length === 0 && (
+          <div className="summary-text">No table changed across these snapshots.</div>
+        )}
+      </div>
+
+      <div className="drift-toolbar">
+        <button onClick={() => postMessage({ type: "refresh" })}>Refresh</button>
+        <button onClick={() => postMessage({ type: "export", format: "json" })}>
+          Export JSON
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * One row per field, one column per snapshot. Cells show whether the
+ * field existed and mark the point where it changed.
+ */
+function TableHistory({
+  table,
+  points,
+  position,
+  onScrub,
+  onOpenStep,
+}: {
+  table: TableTimeline;
+  points: DriftTimelinePoint[];
+  position: number;
+  onScrub: (position: number) => void;
+  onOpenStep: (step: number, table?: string) => void;
+}) {
+  return (
+    <div className="table-history">
+      <div className="diff-table-name">{table.table}</div>
+      <table className="history-grid">
+        <thead>
+          <tr>
+            <th />
+            {points.map((point, i) => (
+              <th
+                key={point.snapshotId}
+                className={i === position ? "current" : ""}
+                title={pointLabel(point)}
+                onClick={() => i > 0 && onScrub(i)}
+              >
+                {i + 1}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.fields.map((field) => (
+            <tr key={field.path}>
+              <td className="field-path">{field.path}</td>
+              {field.types.map((types, i) => {
+                const changes = field.changes[i];
+                const changed = changes.length > 0;
+                const state = changed ? changes[0] : types ? "present" : "absent";
+                return (
+                  <td
+                    key={i}
+                    className={`history-cell ${state} ${i === position ? "current" : ""}`}
+                    title={`${pointLabel(points[i])}: ${types ? types.join(" | ") : "absent"}${changed ? ` (${changes.map((c) => c.replace(/_/g, " ")).join(", ")})` : ""}`}
+                    onClick={() => changed && onOpenStep(i - 1, table.table)}
+                  >
+                    {changed ? changes.map(changeIcon).join("") : types ? "●" : ""}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function pointLabel(point: DriftTimelinePoint): string {
+  const name = point.label ?? new Date(point.createdAt).toLocaleString();
+  return point.git ? `${name} (${point.git.sha.slice(0, 7)})` : name;
+}
+
 function TableDiffCard({
   diff,
   expanded,
@@ -120,13 +366,14 @@ function TableDiffCard({
         <span className="expand-icon">{expanded ? "▼" : "▶"}</span>
         <span className={`change-badge ${diff.change}`}>{diff.change}</span>
         <span className="diff-table-name">{diff.table}</span>
+        <RiskBadge risk={diff.risk} reason={diff.riskReason} />
         <span className="field-count">{diff.fieldDiffs.length} fields</span>
       </div>
 
       {expanded && (
         <div className="field-diffs">
           {diff.fieldDiffs.map((fd) => (
-            <FieldDiffRow key={fd.path} diff={fd} />
+            <FieldDiffRow key={`${fd.path}:${fd.change}`} diff={fd} />
           ))}
         </div>
       )}
@@ -138,9 +385,15 @@ function FieldDiffRow({ diff }: { diff: FieldDiff }) {
   return (
     <div className={`field-diff change-${diff.change}`}>
       <span className={`field-change-icon ${diff.change}`}>
-        {diff.change === "added" ? "+" : diff.change === "removed" ? "-" : "~"}
+        {changeIcon(diff.change)}
       </span>
-      <span className="field-path">{diff.path}</span>
+      {diff.change === "possibly_renamed" ? (
+        <span className="field-path">
+          {diff.renamedFrom} <span className="arrow">→</span> {diff.path}
+        </span>
+      ) : (
+        <span className="field-path">{diff.path}</span>
+      )}
       {diff.change === "type_changed" && (
         <span className="type-change">
           <span className="old-type">{diff.oldTypes?.join(" | ")}</span>
@@ -148,9 +401,94 @@ function FieldDiffRow({ diff }: { diff: FieldDiff }) {
           <span className="new-type">{diff.newTypes?.join(" | ")}</span>
         </span>
       )}
+      {diff.change === "optionality_changed" && (
+        <span className="type-change">
+          <span className="old-type">{diff.oldOptional ? "optional" : "required"}</span>
+          <span className="arrow">→</span>
+          <span className="new-type">{diff.newOptional ? "optional" : "required"}</span>
+        </span>
+      )}
+      {diff.change === "possibly_renamed" && (
+        <span className="type-change">
+          <span className="rename-confidence" title="Name similarity; types match">
+            possible rename · {Math.round((diff.confidence ?? 0) * 100)}%
+          </span>
+        </span>
+      )}
+      <RiskBadge risk={diff.risk} reason={diff.riskReason} />
+    </div>
+  );
+}
+
+function RiskBadge({ risk, reason }: { risk?: ChangeRisk; reason?: string }) {
+  if (!risk) {return null;}
+  return (
+    <span className={`risk-badge ${risk}`} title={reason}>
+      {risk.replace(/_/g, " ")}
+    </span>
+  );
+}
+
+function IndexDiffRow({ diff }: { diff: IndexDiff }) {
+  return (
+    <div className={`field-diff change-${diff.change}`}>
+      <span className={`field-change-icon ${diff.change}`}>
+        {changeIcon(diff.change)}
+      </span>
+      <span className="field-path">
+        {diff.table}.{diff.name}
+      </span>
+      {diff.type !== "by_field" && <span className="index-type">{diff.type}</span>}
+      {diff.change === "fields_changed" ? (
+        <span className="type-change">
+          <span className="old-type">{formatIndexFields(diff.oldFields, diff.oldFilterFields)}</span>
+          <span className="arrow">→</span>
+          <span className="new-type">{formatIndexFields(diff.newFields, diff.newFilterFields)}</span>
+        </span>
+      ) : (
+        <span className="type-change">
+          {formatIndexFields(
+            diff.newFields ?? diff.oldFields,
+            diff.newFilterFields ?? diff.oldFilterFields
+          )}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function RelationDiffRow({ diff }: { diff: RelationDiff }) {
+  return (
+    <div className={`field-diff change-${diff.change}`}>
+      <span className={`field-change-icon ${diff.change}`}>
+        {changeIcon(diff.change)}
+      </span>
+      <span className="field-path">
+        {diff.fromTable}.{diff.fromFieldPath} → {diff.toTable}
+      </span>
     </div>
   );
 }
 
+function changeIcon(change: string): string {
+  switch (change) {
+    case "added":
+      return "+";
+    case "removed":
+      return "-";
+    case "optionality_changed":
+      return "?";
+    case "possibly_renamed":
+      return "»";
+    default:
+      return "~";
+  }
+}
+
+function formatIndexFields(fields?: string[], filterFields?: string[]): string {
+  const list = `[${(fields ?? []).join(", ")}]`;
+  return filterFields?.length ? `${list} filter [${filterFields.join(", ")}]` : list;
+}
+
 const root = createRoot(document.getElementById("root")!);
 root.render(<DriftTimelineApp />);
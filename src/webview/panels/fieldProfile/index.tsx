@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from "react";
+import { createRoot } from "react-dom/client";
+import type {
+  FieldProfileDto,
+  HistogramBucket,
+  NumericSummary,
+} from "../../../shared/types";
+import type { ToWebviewMessage } from "../../../shared/messages";
+import { onMessage, postMessage } from "../../lib/vscodeApi";
+import "./styles.css";
+
+function FieldProfileApp() {
+  const [profile, setProfile] = useState<FieldProfileDto | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMessage, setLoadingMessage] = useState("Profiling field...");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    postMessage({ type: "ready" });
+
+    return onMessage((msg: ToWebviewMessage) => {
+      switch (msg.type) {
+        case "fieldProfile":
+          setProfile(msg.payload);
+          setLoading(false);
+          setError(null);
+          break;
+        case "loading":
+          setLoadingMessage(msg.payload.message);
+          setLoading(true);
+          break;
+        case "error":
+          setError(msg.payload.message);
+          setLoading(false);
+          break;
+      }
+    });
+  }, []);
+
+  if (loading) {
+    return <div className="loading">{loadingMessage}</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="error">
+        <p>{error}</p>
+        <button onClick={() => postMessage({ type: "refresh" })}>Retry</button>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return <div className="loading">No field selected.</div>;
+  }
+
+  const maxTop = Math.max(1, ...profile.topValues.map((v) => v.count));
+
+  return (
+    <div className="profile-container">
+      <div className="profile-header">
+        <span className="profile-title">
+          {profile.table}.<strong>{profile.path}</strong>
+        </span>
+        <button
+          className="refresh-btn"
+          onClick={() => postMessage({ type: "refresh" })}
+        >
+          Refresh
+        </button>
+      </div>
+
+      <div className="stat-grid">
+        <Stat label="Sampled docs" value={profile.sampledDocs} />
+        <Stat label="Values" value={profile.valueCount} />
+        <Stat label="Distinct" value={profile.distinctCount} />
+        <Stat
+          label="Missing"
+          value={`${profile.missingCount} (${percent(profile.missingCount, profile.sampledDocs)})`}
+        />
+        <Stat
+          label="Null"
+          value={`${profile.nullCount} (${percent(profile.nullCount, profile.valueCount)})`}
+        />
+        <Stat
+          label="Types"
+          value={Object.entries(profile.types)
+            .map(([type, count]) => `${type} ${count}`)
+            .join(", ") || "—"}
+        />
+      </div>
+
+      {profile.timestamps && (
+        <section>
+          <h3>Timestamps</h3>
+          <div className="stat-grid">
+            <Stat label="Earliest" value={new Date(profile.timestamps.min).toLocaleString()} />
+            <Stat label="Latest" value={new Date(profile.timestamps.max).toLocaleString()} />
+          </div>
+        </section>
+      )}
+
+      {profile.numbers && !profile.timestamps && (
+        <section>
+          <h3>Numbers</h3>
+          <SummaryGrid summary={profile.numbers} />
+        </section>
+      )}
+
+      {profile.stringLengths && (
+        <section>
+          <h3>String length</h3>
+          <SummaryGrid summary={profile.stringLengths} />
+          <Histogram buckets={profile.stringLengths.histogram} />
+        </section>
+      )}
+
+      {profile.arrayLengths && (
+        <section>
+          <h3>Array length</h3>
+          <SummaryGrid summary={profile.arrayLengths} />
+          <Histogram buckets={profile.arrayLengths.histogram} />
+        </section>
+      )}
+
+      <section>
+        <h3>Top values</h3>
+        {profile.topValues.length === 0 && (
+          <div className="empty-state">No values in the sample.</div>
+        )}
+        {profile.topValues.map((v) => (
+          <div key={v.value} className="bar-row">
+            <code className="bar-label" title={v.value}>{v.value}</code>
+            <div className="bar-track">
+              <div className="bar" style={{ width: `${(v.count / maxTop) * 100}%` }} />
+            </div>
+            <span className="bar-count">
+              {v.count} ({percent(v.count, profile.valueCount)})
+            </span>
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="stat">
+      <span className="stat-label">{label}</span>
+      <span className="stat-value">{value}</span>
+    </div>
+  );
+}
+
+function SummaryGrid({ summary }: { summary: NumericSummary }) {
+  return (
+    <div className="stat-grid">
+      <Stat label="Min" value={formatNumber(summary.min)} />
+      <Stat label="Max" value={formatNumber(summary.max)} />
+      <Stat label="Mean" value={formatNumber(summary.mean)} />
+    </div>
+  );
+}
+
+function Histogram({ buckets }: { buckets: HistogramBucket[] }) {
+  const max = Math.max(1, ...buckets.map((b) => b.count));
+  return (
+    <div className="histogram">
+      {buckets.map((bucket) => (
+        <div key={bucket.label} className="bar-row">
+          <span className="bar-label">{bucket.label}</span>
+          <div className="bar-track">
+            <div className="bar" style={{ width: `${(bucket.count / max) * 100}%` }} />
+          </div>
+          <span className="bar-count">{bucket.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function percent(count: number, total: number): string {
+  return total === 0 ? "0%" : `${((count / total) * 100).toFixed(1)}%`;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? `${value}` : value.toFixed(2);
+}
+
+const root = createRoot(document.getElementById("root")!);
+root.render(<FieldProfileApp />);
@@ -0,0 +1,179 @@
+import React, { useEffect, useState, useCallback } from "react";
+import { createRoot } from "react-dom/client";
+import type {
+  IntegrityReportDto,
+  OrphanFixDto,
+  RelationIntegrity,
+} from "../../../shared/types";
+import type { ToWebviewMessage } from "../../../shared/messages";
+import { onMessage, postMessage } from "../../lib/vscodeApi";
+import "./styles.css";
+
+function IntegrityApp() {
+  const [report, setReport] = useState<IntegrityReportDto | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMessage, setLoadingMessage] = useState("Scanning references...");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    postMessage({ type: "ready" });
+
+    return onMessage((msg: ToWebviewMessage) => {
+      switch (msg.type) {
+        case "integrityReport":
+          setReport(msg.payload);
+          setLoading(false);
+          setError(null);
+          break;
+        case "loading":
+          setLoadingMessage(msg.payload.message);
+          setLoading(true);
+          break;
+        case "error":
+          setError(msg.payload.message);
+          setLoading(false);
+          break;
+      }
+    });
+  }, []);
+
+  const openDocument = useCallback((table: string, id: string) => {
+    postMessage({ type: "openDocument", payload: { table, id } });
+  }, []);
+
+  const fixOrphan = useCallback((fix: OrphanFixDto) => {
+    postMessage({ type: "fixOrphan", payload: fix });
+  }, []);
+
+  if (loading) {
+    return <div className="loading">{loadingMessage}</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="error">
+        <p>{error}</p>
+        <button onClick={() => postMessage({ type: "refresh" })}>Retry</button>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return <div className="empty-state">No report yet.</div>;
+  }
+
+  const orphanCount = report.relations.reduce((sum, r) => sum + r.orphans.length, 0);
+  const fixTitle = report.readOnly
+    ? "Disable exconvex.readOnly to modify documents"
+    : undefined;
+
+  return (
+    <div className="integrity-container">
+      <div className="summary-bar">
+        <span className="summary-total">
+          {orphanCount} dangling references across {report.relations.length} relations
+        </span>
+        {report.readOnly && <span className="read-only-badge">read-only</span>}
+        <button
+          className="refresh-btn"
+          onClick={() => postMessage({ type: "refresh" })}
+        >
+          Re-scan
+        </button>
+      </div>
+
+      {report.relations.map((relation) => (
+        <RelationSection
+          key={`${relation.fromTable}.${relation.fromFieldPath}->${relation.toTable}`}
+          relation={relation}
+          readOnly={report.readOnly}
+          fixTitle={fixTitle}
+          onOpen={openDocument}
+          onFix={fixOrphan}
+        />
+      ))}
+
+      {report.relations.length === 0 && (
+        <div className="empty-state">The schema declares no v.id() references.</div>
+      )}
+    </div>
+  );
+}
+
+function RelationSection({
+  relation,
+  readOnly,
+  fixTitle,
+  onOpen,
+  onFix,
+}: {
+  relation: RelationIntegrity;
+  readOnly: boolean;
+  fixTitle: string | undefined;
+  onOpen: (table: string, id: string) => void;
+  onFix: (fix: OrphanFixDto) => void;
+}) {
+  // Only top-level fields can be unset; nested references need a document edit
+  const canClear = !/[.[]/.test(relation.fromFieldPath);
+  const fix = (id: string, action: OrphanFixDto["action"]) =>
+    onFix({ table: relation.fromTable, id, field: relation.fromFieldPath, action });
+
+  return (
+    <div className={`relation-section ${relation.orphans.length > 0 ? "has-orphans" : ""}`}>
+      <div className="relation-header">
+        <span className="relation-name">
+          {relation.fromTable}.{relation.fromFieldPath} → {relation.toTable}
+        </span>
+        <span className="relation-meta">
+          {relation.orphans.length} orphans · {relation.checkedRefs} IDs in{" "}
+          {relation.scannedDocs} documents
+          {relation.truncated && " (scan limit reached)"}
+        </span>
+      </div>
+      {relation.orphans.length > 0 && (
+        <table className="orphan-table">
+          <tbody>
+            {relation.orphans.map((orphan) => (
+              <tr key={`${orphan.documentId}:${orphan.missingId}`} className="orphan-row">
+                <td>
+                  <button
+                    className="doc-link"
+                    onClick={() => onOpen(relation.fromTable, orphan.documentId)}
+                  >
+                    {orphan.documentId}
+                  </button>
+                </td>
+                <td className="orphan-missing">
+                  missing <code>{orphan.missingId}</code>
+                </td>
+                <td className="orphan-actions">
+                  {canClear && (
+                    <button
+                      className="fix-btn"
+                      disabled={readOnly}
+                      title={fixTitle}
+                      onClick={() => fix(orphan.documentId, "clear")}
+                    >
+                      Clear field
+                    </button>
+                  )}
+                  <button
+                    className="fix-btn danger"
+                    disabled={readOnly}
+                    title={fixTitle}
+                    onClick={() => fix(orphan.documentId, "delete")}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+const root = createRoot(document.getElementById("root")!);
+root.render(<IntegrityApp />);
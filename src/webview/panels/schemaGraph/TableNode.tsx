@@ -1,34 +1,90 @@
 import React, { memo } from "react";
 import { Handle, Position, type NodeProps } from "@xyflow/react";
-import type { FieldStat } from "../../../shared/types";
+import type {
+  FieldStat,
+  SourceLocation,
+  TableOrigin,
+} from "../../../shared/types";
+import { postMessage } from "../../lib/vscodeApi";
 
 interface TableNodeData {
   label: string;
   fields: FieldStat[];
   indexCount: number;
+  origin?: TableOrigin;
+  location?: SourceLocation;
+  source?: "declared" | "inferred";
   [key: string]: unknown;
 }
 
+function revealInSchema(location: SourceLocation | undefined): void {
+  if (!location) {return;}
+  postMessage({
+    type: "openFile",
+    path: location.file,
+    line: location.line + 1,
+    column: location.column + 1,
+  });
+}
+
 export const TableNode = memo(function TableNode({
   data,
 }: NodeProps & { data: TableNodeData }) {
   return (
-    <div className="table-node">
+    <div
+      className={`table-node${data.origin?.library ? " library" : ""}${data.source === "inferred" ? " inferred" : ""}`}
+    >
       <Handle type="target" position={Position.Left} />
-      <div className="table-node-header">
+      {/* Table-level source for existing edges; listed first so edges
+          without a sourceHandle attach here */}
+      <Handle type="source" position={Position.Right} />
+      <div
+        className="table-node-header"
+        title={data.location ? "Double-click to reveal in schema" : undefined}
+        onDoubleClick={() => revealInSchema(data.location)}
+      >
         <span className="table-name">{data.label}</span>
+        {data.origin && (
+          <span
+            className="origin-badge"
+            title={`Spread from ${data.origin.exportName}`}
+          >
+            {data.origin.module ?? data.origin.exportName}
+          </span>
+        )}
+        {data.source === "inferred" && (
+          <span className="inferred-badge" title="Inferred from sampled data">
+            inferred
+          </span>
+        )}
         {data.indexCount > 0 && (
           <span className="index-badge">{data.indexCount} idx</span>
         )}
       </div>
       <div className="table-node-fields">
         {data.fields.slice(0, 15).map((field) => (
-          <div key={field.path} className="field-row">
+          <div
+            key={field.path}
+            className="field-row"
+            onDoubleClick={() => revealInSchema(field.location)}
+          >
             <span className="field-name">{field.path}</span>
             <span className="field-type">
               {field.types.join(" | ")}
               {field.optionalRate > 0 && "?"}
             </span>
+            {!field.validator && (
+              <span className="field-confidence">
+                {(field.confidence * 100).toFixed(0)}%
+              </span>
+            )}
+            <Handle
+              type="source"
+              id={`field:${field.path}`}
+              position={Position.Right}
+              className="field-handle"
+              title="Drag to a table to add a relation"
+            />
           </div>
         ))}
         {data.fields.length > 15 && (
@@ -37,7 +93,6 @@ export const TableNode = memo(function TableNode({
           </div>
         )}
       </div>
-      <Handle type="source" position={Position.Right} />
     </div>
   );
 });
@@ -5,8 +5,13 @@ import {
   Background,
   Controls,
   MiniMap,
+  applyEdgeChanges,
+  applyNodeChanges,
   type Node,
   type Edge,
+  type Connection,
+  type EdgeChange,
+  type NodeChange,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 import type { SchemaGraphDto } from "../../../shared/types";
@@ -51,6 +56,43 @@ function SchemaGraphApp() {
     setEdges(layoutEdges);
   }, []);
 
+  const onNodesChange = useCallback((changes: NodeChange[]) => {
+    setNodes((current) => applyNodeChanges(changes, current));
+  }, []);
+
+  const onEdgesChange = useCallback((changes: EdgeChange[]) => {
+    setEdges((current) => applyEdgeChanges(changes, current));
+  }, []);
+
+  // Dragging from a field's handle onto a table declares a manual relation
+  const handleConnect = useCallback((connection: Connection) => {
+    const fieldPath = connection.sourceHandle?.replace(/^field:/, "");
+    if (!fieldPath || connection.sourceHandle === fieldPath) {return;}
+    postMessage({
+      type: "setRelationOverride",
+      payload: {
+        fromTable: connection.source,
+        fromFieldPath: fieldPath,
+        toTable: connection.target,
+        action: "add",
+      },
+    });
+  }, []);
+
+  const handleEdgesDelete = useCallback((deleted: Edge[]) => {
+    for (const edge of deleted) {
+      postMessage({
+        type: "setRelationOverride",
+        payload: {
+          fromTable: edge.source,
+          fromFieldPath: (edge.data?.sourceField as string | undefined) ?? "",
+          toTable: edge.target,
+          action: "remove",
+        },
+      });
+    }
+  }, []);
+
   const handleRefresh = useCallback(() => {
     postMessage({ type: "refresh" });
   }, []);
@@ -87,6 +129,10 @@ function SchemaGraphApp() {
         nodes={nodes}
         edges={edges}
         nodeTypes={nodeTypes}
+        onNodesChange={onNodesChange}
+        onEdgesChange={onEdgesChange}
+        onConnect={handleConnect}
+        onEdgesDelete={handleEdgesDelete}
         fitView
         minZoom={0.1}
         maxZoom={2}
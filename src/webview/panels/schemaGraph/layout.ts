@@ -51,6 +51,9 @@ export async function layoutGraph(
         label: graphNode.table,
         fields: graphNode.fields,
         indexCount: graphNode.indexCount,
+        origin: graphNode.origin,
+        location: graphNode.location,
+        source: graphNode.source,
       },
     };
   });
@@ -60,9 +63,13 @@ export async function layoutGraph(
     source: e.source,
     target: e.target,
     label: e.label ?? e.sourceField,
-    animated: e.confidence < 0.8,
+    animated: e.origin !== "manual" && e.confidence < 0.8,
+    data: { sourceField: e.sourceField },
     style: {
-      stroke: e.confidence >= 0.8 ? "var(--vscode-charts-green)" : "var(--vscode-charts-yellow)",
+      stroke:
+        e.origin === "manual"
+          ? "var(--vscode-charts-blue)"
+          : e.confidence >= 0.8 ? "var(--vscode-charts-green)" : "var(--vscode-charts-yellow)",
     },
   }));
 